@@ -86,6 +86,20 @@ export default [
         },
       ],
 
+      // node:test runs the suites and tests it is given without awaiting
+      '@typescript-eslint/no-floating-promises': [
+        'error',
+        {
+          allowForKnownSafeCalls: [
+            {
+              from: 'package',
+              name: ['describe', 'it'],
+              package: 'node:test',
+            },
+          ],
+        },
+      ],
+
       '@typescript-eslint/no-empty-interface': [
         'error',
         {
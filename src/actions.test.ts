@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+
+import assert from 'assert/strict';
+
+import { getActionsDeposit, TransactionActionsSchema } from './actions';
+
+const NEAR = 10n ** 24n;
+
+describe('getActionsDeposit', () => {
+  it('adds up the transfers, deposits and staked amounts', () => {
+    const actions = TransactionActionsSchema.parse([
+      { type: 'Transfer', amount: NEAR },
+      { type: 'FunctionCall', methodName: 'ft_transfer', deposit: 1n },
+      {
+        type: 'Stake',
+        amount: 2n * NEAR,
+        publicKey: 'ed25519:6E8sCci9badyRkXb3JoRpBj5p8C6Tw41ELDZoiihKEtp',
+      },
+    ]);
+    assert.equal(getActionsDeposit(actions), 3n * NEAR + 1n);
+  });
+
+  it('counts nothing for the actions moving no NEAR', () => {
+    const actions = TransactionActionsSchema.parse([
+      { type: 'CreateAccount' },
+      { type: 'FunctionCall', methodName: 'ft_balance_of' },
+      {
+        type: 'DeleteKey',
+        publicKey: 'ed25519:6E8sCci9badyRkXb3JoRpBj5p8C6Tw41ELDZoiihKEtp',
+      },
+    ]);
+    assert.equal(getActionsDeposit(actions), 0n);
+  });
+});
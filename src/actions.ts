@@ -0,0 +1,415 @@
+import { KeyType, PublicKey } from '@near-js/crypto';
+import { transactions } from 'near-api-js';
+import { z } from 'zod';
+
+import { formatTokenAmount, NEAR_DECIMALS } from './policy';
+import { NearToken, type Result } from './utils';
+import { getCodeHash } from './wasm';
+
+export const TRANSACTION_ACTION_TYPES = [
+  'Transfer',
+  'FunctionCall',
+  'AddKey',
+  'DeleteKey',
+  'CreateAccount',
+  'DeployContract',
+  'Stake',
+  'DeleteAccount',
+] as const;
+
+const NearAmountSchema = z.union([
+  z.number().describe('The amount of NEAR tokens (in NEAR)'),
+  z.bigint().describe('The amount in yoctoNEAR'),
+]);
+
+export const TransactionActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('Transfer'),
+    amount: NearAmountSchema.describe('The amount of NEAR to send.'),
+  }),
+  z.object({
+    type: z.literal('FunctionCall'),
+    methodName: z.string(),
+    args: z
+      .record(z.string(), z.any())
+      .default({})
+      .describe('The arguments to pass to the method.'),
+    gas: z
+      .bigint()
+      .optional()
+      .describe('The gas of the function call (default to 30TGas).'),
+    deposit: NearAmountSchema.default(0).describe(
+      'The amount to attach to the function call.',
+    ),
+  }),
+  z.object({
+    type: z.literal('AddKey'),
+    publicKey: z.string().describe('The public key of the access key.'),
+    permission: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('FullAccess') }),
+      z.object({
+        type: z.literal('FunctionCall'),
+        receiverId: z.string().describe('The contract the key can call.'),
+        methodNames: z
+          .array(z.string())
+          .default([])
+          .describe('The methods the key can call, any method when empty.'),
+        allowance: NearAmountSchema.optional().describe(
+          'The NEAR the key can spend on fees, unlimited when omitted.',
+        ),
+      }),
+    ]),
+  }),
+  z.object({
+    type: z.literal('DeleteKey'),
+    publicKey: z.string().describe('The public key of the access key.'),
+  }),
+  z.object({
+    type: z.literal('CreateAccount'),
+  }),
+  z.object({
+    type: z.literal('DeployContract'),
+    code: z.string().describe('The wasm code of the contract, base64 encoded.'),
+  }),
+  z.object({
+    type: z.literal('Stake'),
+    amount: NearAmountSchema.describe('The amount of NEAR to stake.'),
+    publicKey: z.string().describe('The public key of the validator.'),
+  }),
+  z.object({
+    type: z.literal('DeleteAccount'),
+    beneficiaryId: z
+      .string()
+      .describe('The account receiving the remaining balance.'),
+  }),
+]);
+export type TransactionAction = z.infer<typeof TransactionActionSchema>;
+
+export const TransactionActionsSchema = z
+  .array(TransactionActionSchema)
+  .min(1)
+  .superRefine((actions, ctx) => {
+    actions.forEach((action, index) => {
+      // the other actions of the batch apply to the created account
+      if (action.type === 'CreateAccount' && index !== 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'CreateAccount must be the first action',
+          path: [index],
+        });
+      }
+      if (action.type === 'DeleteAccount' && index !== actions.length - 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'DeleteAccount must be the last action',
+          path: [index],
+        });
+      }
+    });
+  });
+
+const toYoctoNear = (amount: number | bigint) =>
+  typeof amount === 'number'
+    ? NearToken.parse_near(amount.toString()).as_yocto_near()
+    : amount;
+
+const formatNear = (amount: number | bigint) =>
+  `${formatTokenAmount(toYoctoNear(amount), NEAR_DECIMALS)} NEAR`;
+
+// the NEAR leaving the available balance of the signer: the transfers, the
+// attached deposits and the staked amounts. The balance sent away when the
+// signer deletes itself is only known from the chain.
+export const getActionsDeposit = (actions: TransactionAction[]) =>
+  actions.reduce(
+    (total, action) =>
+      total +
+      (action.type === 'Transfer' || action.type === 'Stake'
+        ? toYoctoNear(action.amount)
+        : action.type === 'FunctionCall'
+          ? toYoctoNear(action.deposit)
+          : 0n),
+    0n,
+  );
+
+export const getActionsGas = (
+  actions: TransactionAction[],
+  defaultGas: bigint,
+) =>
+  actions.reduce(
+    (total, action) =>
+      total +
+      (action.type === 'FunctionCall' ? (action.gas ?? defaultGas) : 0n),
+    0n,
+  );
+
+export const toTransactionActions = (
+  actions: TransactionAction[],
+  defaultGas: bigint,
+): Result<transactions.Action[], Error> => {
+  try {
+    return {
+      ok: true,
+      value: actions.map((action) => {
+        switch (action.type) {
+          case 'Transfer':
+            return transactions.transfer(toYoctoNear(action.amount));
+          case 'FunctionCall':
+            return transactions.functionCall(
+              action.methodName,
+              action.args,
+              action.gas ?? defaultGas,
+              toYoctoNear(action.deposit),
+            );
+          case 'AddKey':
+            return transactions.addKey(
+              PublicKey.fromString(action.publicKey),
+              action.permission.type === 'FullAccess'
+                ? transactions.fullAccessKey()
+                : transactions.functionCallAccessKey(
+                    action.permission.receiverId,
+                    action.permission.methodNames,
+                    action.permission.allowance !== undefined
+                      ? toYoctoNear(action.permission.allowance)
+                      : undefined,
+                  ),
+            );
+          case 'DeleteKey':
+            return transactions.deleteKey(
+              PublicKey.fromString(action.publicKey),
+            );
+          case 'CreateAccount':
+            return transactions.createAccount();
+          case 'DeployContract':
+            return transactions.deployContract(
+              Buffer.from(action.code, 'base64'),
+            );
+          case 'Stake':
+            return transactions.stake(
+              toYoctoNear(action.amount),
+              PublicKey.fromString(action.publicKey),
+            );
+          case 'DeleteAccount':
+            return transactions.deleteAccount(action.beneficiaryId);
+        }
+      }),
+    };
+  } catch (e) {
+    return {
+      ok: false,
+      error: new Error(`Invalid transaction action: ${String(e)}`),
+    };
+  }
+};
+
+const BytesSchema = z.array(z.number());
+
+// a public key as deserialized from borsh
+export const BorshPublicKeySchema = z.union([
+  z.object({ ed25519Key: z.object({ data: BytesSchema }) }),
+  z.object({ secp256k1Key: z.object({ data: BytesSchema }) }),
+]);
+
+export const toPublicKey = (publicKey: z.infer<typeof BorshPublicKeySchema>) =>
+  'ed25519Key' in publicKey
+    ? new PublicKey({
+        keyType: KeyType.ED25519,
+        data: Uint8Array.from(publicKey.ed25519Key.data),
+      })
+    : new PublicKey({
+        keyType: KeyType.SECP256K1,
+        data: Uint8Array.from(publicKey.secp256k1Key.data),
+      });
+
+// borsh enums, keyed by the variant of the action
+const BorshActionSchema = z.union([
+  z.object({ transfer: z.object({ deposit: z.bigint() }) }),
+  z.object({
+    functionCall: z.object({
+      methodName: z.string(),
+      args: BytesSchema,
+      gas: z.bigint(),
+      deposit: z.bigint(),
+    }),
+  }),
+  z.object({
+    addKey: z.object({
+      publicKey: BorshPublicKeySchema,
+      accessKey: z.object({
+        permission: z.union([
+          z.object({ fullAccess: z.object({}) }),
+          z.object({
+            functionCall: z.object({
+              allowance: z.bigint().nullish(),
+              receiverId: z.string(),
+              methodNames: z.array(z.string()),
+            }),
+          }),
+        ]),
+      }),
+    }),
+  }),
+  z.object({ deleteKey: z.object({ publicKey: BorshPublicKeySchema }) }),
+  z.object({ createAccount: z.object({}) }),
+  z.object({ deployContract: z.object({ code: BytesSchema }) }),
+  z.object({
+    stake: z.object({ stake: z.bigint(), publicKey: BorshPublicKeySchema }),
+  }),
+  z.object({ deleteAccount: z.object({ beneficiaryId: z.string() }) }),
+]);
+
+const toTransactionAction = (
+  action: z.infer<typeof BorshActionSchema>,
+): Result<TransactionAction, Error> => {
+  if ('transfer' in action) {
+    return {
+      ok: true,
+      value: { type: 'Transfer', amount: action.transfer.deposit },
+    };
+  }
+  if ('functionCall' in action) {
+    const { methodName, args, gas, deposit } = action.functionCall;
+    const jsonArgs = ((): unknown => {
+      try {
+        return JSON.parse(Buffer.from(args).toString('utf-8')) as unknown;
+      } catch {
+        return undefined;
+      }
+    })();
+    // the arguments are shown for approval and checked for token transfers
+    if (
+      typeof jsonArgs !== 'object' ||
+      jsonArgs === null ||
+      Array.isArray(jsonArgs)
+    ) {
+      return {
+        ok: false,
+        error: new Error(
+          `The arguments of ${methodName} are not a JSON object and cannot be checked`,
+        ),
+      };
+    }
+    return {
+      ok: true,
+      value: {
+        type: 'FunctionCall',
+        methodName,
+        args: jsonArgs as Record<string, unknown>,
+        gas,
+        deposit,
+      },
+    };
+  }
+  if ('addKey' in action) {
+    const { permission } = action.addKey.accessKey;
+    return {
+      ok: true,
+      value: {
+        type: 'AddKey',
+        publicKey: toPublicKey(action.addKey.publicKey).toString(),
+        permission:
+          'fullAccess' in permission
+            ? { type: 'FullAccess' }
+            : {
+                type: 'FunctionCall',
+                receiverId: permission.functionCall.receiverId,
+                methodNames: permission.functionCall.methodNames,
+                allowance: permission.functionCall.allowance ?? undefined,
+              },
+      },
+    };
+  }
+  if ('deleteKey' in action) {
+    return {
+      ok: true,
+      value: {
+        type: 'DeleteKey',
+        publicKey: toPublicKey(action.deleteKey.publicKey).toString(),
+      },
+    };
+  }
+  if ('createAccount' in action) {
+    return { ok: true, value: { type: 'CreateAccount' } };
+  }
+  if ('deployContract' in action) {
+    return {
+      ok: true,
+      value: {
+        type: 'DeployContract',
+        code: Buffer.from(action.deployContract.code).toString('base64'),
+      },
+    };
+  }
+  if ('stake' in action) {
+    return {
+      ok: true,
+      value: {
+        type: 'Stake',
+        amount: action.stake.stake,
+        publicKey: toPublicKey(action.stake.publicKey).toString(),
+      },
+    };
+  }
+  return {
+    ok: true,
+    value: {
+      type: 'DeleteAccount',
+      beneficiaryId: action.deleteAccount.beneficiaryId,
+    },
+  };
+};
+
+/**
+ * Convert the actions of a transaction deserialized from borsh, e.g. by
+ * `SignedTransaction.decode`, back to transaction actions, to check them
+ * like the actions of a batch. Delegate actions are not supported.
+ */
+export const fromTransactionActions = (
+  actions: unknown[],
+): Result<TransactionAction[], Error> => {
+  const transactionActions: TransactionAction[] = [];
+  for (const action of actions) {
+    const parsed = BorshActionSchema.safeParse(action);
+    if (!parsed.success) {
+      return {
+        ok: false,
+        error: new Error(
+          `Unsupported action ${typeof action === 'object' && action !== null ? Object.keys(action).join(', ') : String(action)} in the transaction`,
+        ),
+      };
+    }
+    const actionResult = toTransactionAction(parsed.data);
+    if (!actionResult.ok) {
+      return actionResult;
+    }
+    transactionActions.push(actionResult.value);
+  }
+  return { ok: true, value: transactionActions };
+};
+
+export const describeTransactionAction = (action: TransactionAction) => {
+  switch (action.type) {
+    case 'Transfer':
+      return `Transfer ${formatNear(action.amount)}`;
+    case 'FunctionCall':
+      return `FunctionCall ${action.methodName}(${JSON.stringify(action.args)}) with a deposit of ${formatNear(action.deposit)}`;
+    case 'AddKey':
+      return action.permission.type === 'FullAccess'
+        ? `AddKey ${action.publicKey} with full access`
+        : `AddKey ${action.publicKey} for calls to ${action.permission.receiverId}` +
+            (action.permission.methodNames.length > 0
+              ? ` methods ${action.permission.methodNames.join(', ')}`
+              : '');
+    case 'DeleteKey':
+      return `DeleteKey ${action.publicKey}`;
+    case 'CreateAccount':
+      return 'CreateAccount';
+    case 'DeployContract': {
+      const code = Buffer.from(action.code, 'base64');
+      return `DeployContract of ${code.length} bytes with code hash ${getCodeHash(code)}`;
+    }
+    case 'Stake':
+      return `Stake ${formatNear(action.amount)} with validator key ${action.publicKey}`;
+    case 'DeleteAccount':
+      return `DeleteAccount sending the remaining balance to ${action.beneficiaryId}`;
+  }
+};
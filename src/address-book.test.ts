@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+
+import assert from 'assert/strict';
+
+import { AddressBookConfigSchema, createAddressBook } from './address-book';
+
+const contacts = [
+  { name: 'payroll', accountId: 'payroll.near' },
+  { name: 'faucet', accountId: 'faucet.testnet', networkId: 'testnet' },
+];
+
+describe('createAddressBook', () => {
+  it('resolves contact names of the network', () => {
+    const addressBook = createAddressBook(
+      AddressBookConfigSchema.parse({ contacts }),
+    );
+    assert.equal(addressBook.resolve('mainnet', 'Payroll'), 'payroll.near');
+    assert.equal(addressBook.resolve('mainnet', 'bob.near'), 'bob.near');
+    assert.equal(addressBook.resolve('testnet', 'payroll'), 'payroll');
+    assert.deepEqual(
+      addressBook.getContacts('testnet').map(({ name }) => name),
+      ['faucet'],
+    );
+  });
+
+  it('accepts any receiver unless the allowlist is enforced', () => {
+    const addressBook = createAddressBook(
+      AddressBookConfigSchema.parse({ contacts }),
+    );
+    assert.ok(addressBook.checkReceiver('mainnet', 'bob.near').ok);
+  });
+
+  it('accepts only the accounts of the network when enforced', () => {
+    const addressBook = createAddressBook(
+      AddressBookConfigSchema.parse({ contacts, allowlistOnly: true }),
+    );
+    assert.ok(addressBook.checkReceiver('mainnet', 'payroll.near').ok);
+    assert.ok(!addressBook.checkReceiver('testnet', 'payroll.near').ok);
+    const result = addressBook.checkReceiver('mainnet', 'bob.near');
+    assert.ok(!result.ok);
+    assert.match(result.error.message, /not in the address book of mainnet/);
+  });
+});
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+import { type Result } from './utils';
+
+const ContactSchema = z.object({
+  name: z
+    .string()
+    .min(1)
+    .describe('The name agents refer to the contact by, e.g. `payroll`.'),
+  accountId: z.string().min(2),
+  networkId: z.string().default('mainnet'),
+  description: z.string().optional(),
+});
+export type Contact = z.infer<typeof ContactSchema>;
+
+export const AddressBookConfigSchema = z.object({
+  contacts: z.array(ContactSchema).default([]),
+  allowlistOnly: z
+    .boolean()
+    .default(false)
+    .describe(
+      'Only let tokens be sent, and deleted accounts be transferred, to the accounts of the address book.',
+    ),
+});
+export type AddressBookConfig = z.infer<typeof AddressBookConfigSchema>;
+
+export type AddressBook = {
+  getContacts: (networkId: string) => Contact[];
+  // resolve a contact name to its account id, other ids are returned as is
+  resolve: (networkId: string, nameOrAccountId: string) => string;
+  // check the receiver of tokens against the allowlist, if enforced
+  checkReceiver: (networkId: string, accountId: string) => Result<void, Error>;
+};
+
+export const createAddressBook = (
+  config: AddressBookConfig = AddressBookConfigSchema.parse({}),
+): AddressBook => {
+  const getContacts = (networkId: string) =>
+    config.contacts.filter((contact) => contact.networkId === networkId);
+
+  return {
+    getContacts,
+    resolve: (networkId, nameOrAccountId) =>
+      getContacts(networkId).find(
+        (contact) =>
+          contact.name.toLowerCase() === nameOrAccountId.toLowerCase(),
+      )?.accountId ?? nameOrAccountId,
+    checkReceiver: (networkId, accountId) => {
+      if (
+        !config.allowlistOnly ||
+        getContacts(networkId).some(
+          (contact) => contact.accountId === accountId,
+        )
+      ) {
+        return { ok: true, value: undefined };
+      }
+      return {
+        ok: false,
+        error: new Error(
+          `Receiver ${accountId} is not in the address book of ${networkId}. Only accounts of the address book can receive tokens, list them with the address_book_list_contacts tool.`,
+        ),
+      };
+    },
+  };
+};
@@ -0,0 +1,155 @@
+import { describe, it } from 'node:test';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  type CallToolResult,
+  ElicitRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryKeyStore } from '@near-js/keystores';
+import assert from 'assert/strict';
+import base58 from 'bs58';
+import { KeyPair } from 'near-api-js';
+
+import {
+  ApprovalConfigSchema,
+  createApprovalPolicy,
+  createPendingTransactions,
+} from './approval';
+import { NEAR_DECIMALS, NEAR_TOKEN, type Spend } from './policy';
+import { createRpcProviders, RpcConfigSchema } from './rpc';
+import { createMcpServer } from './services';
+
+const nearSpend = (amount: bigint): Spend => ({
+  accountId: 'alice.testnet',
+  networkId: 'testnet',
+  token: NEAR_TOKEN,
+  amount,
+  decimals: NEAR_DECIMALS,
+});
+
+describe('createApprovalPolicy', () => {
+  const policy = createApprovalPolicy(
+    ApprovalConfigSchema.parse({
+      threshold: '1',
+      tokenThresholds: { 'usdc.testnet': '100' },
+    }),
+  );
+
+  it('requires approval from the NEAR threshold', () => {
+    assert.ok(!policy.isApprovalRequired('tokens_send_near', []));
+    assert.ok(
+      !policy.isApprovalRequired('tokens_send_near', [nearSpend(10n ** 23n)]),
+    );
+    assert.ok(
+      policy.isApprovalRequired('tokens_send_near', [nearSpend(10n ** 24n)]),
+    );
+  });
+
+  it('requires approval for tokens without a threshold', () => {
+    const tokenSpend = (token: string, amount: bigint): Spend => ({
+      ...nearSpend(amount),
+      token,
+      decimals: 6,
+    });
+    assert.ok(
+      !policy.isApprovalRequired('tokens_send_ft', [
+        tokenSpend('usdc.testnet', 99_000_000n),
+      ]),
+    );
+    assert.ok(
+      policy.isApprovalRequired('tokens_send_ft', [
+        tokenSpend('usdt.testnet', 1n),
+      ]),
+    );
+  });
+
+  it('requires approval for the configured tools', () => {
+    assert.ok(policy.isApprovalRequired('account_delete_account', []));
+  });
+});
+
+describe('createPendingTransactions', () => {
+  const summary = {
+    toolName: 'tokens_send_near',
+    networkId: 'testnet',
+    signerAccountId: 'alice.testnet',
+    receiverAccountId: 'bob.testnet',
+  };
+
+  it('hands out a pending transaction once', () => {
+    const pending = createPendingTransactions<string>(60_000);
+    const transaction = pending.add(summary, async () => 'sent');
+    assert.ok(pending.take(transaction.id).ok);
+    assert.ok(!pending.take(transaction.id).ok);
+  });
+
+  it('drops expired transactions', () => {
+    const pending = createPendingTransactions<string>(-1);
+    const transaction = pending.add(summary, async () => 'sent');
+    assert.deepEqual(pending.list(), []);
+    assert.ok(!pending.take(transaction.id).ok);
+  });
+});
+
+describe('approval elicitation', () => {
+  // transaction_sign with a nonce and a block hash never reaches the network
+  const signTransaction = async (approve: boolean) => {
+    const keystore = new InMemoryKeyStore();
+    await keystore.setKey(
+      'testnet',
+      'alice.testnet',
+      KeyPair.fromRandom('ed25519'),
+    );
+    const mcp = await createMcpServer(keystore, {
+      rpc: createRpcProviders(RpcConfigSchema.parse({})),
+      approvalPolicy: createApprovalPolicy(
+        ApprovalConfigSchema.parse({ tools: ['transaction_sign'] }),
+      ),
+    });
+    const client = new Client(
+      { name: 'test', version: '1.0.0' },
+      { capabilities: { elicitation: {} } },
+    );
+    const messages: string[] = [];
+    client.setRequestHandler(ElicitRequestSchema, (request) => {
+      messages.push(request.params.message);
+      return { action: 'accept', content: { approve } };
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      mcp.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+    const result = (await client.callTool({
+      name: 'transaction_sign',
+      arguments: {
+        signerAccountId: 'alice.testnet',
+        receiverAccountId: 'bob.testnet',
+        actions: [{ type: 'Transfer', amount: 1 }],
+        networkId: 'testnet',
+        nonce: 1,
+        blockHash: base58.encode(new Uint8Array(32)),
+      },
+    })) as CallToolResult;
+    await client.close();
+    const [content] = result.content;
+    return {
+      text: content?.type === 'text' ? content.text : '',
+      messages,
+    };
+  };
+
+  it('signs once the user approves', async () => {
+    const { text, messages } = await signTransaction(true);
+    assert.match(text, /^Transaction signed, not broadcast/);
+    assert.equal(messages.length, 1);
+    assert.match(messages[0]!, /Tool: transaction_sign/);
+  });
+
+  it('does not sign when the user rejects', async () => {
+    const { text } = await signTransaction(false);
+    assert.equal(text, 'Transaction rejected by the user');
+  });
+});
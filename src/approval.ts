@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+
+import {
+  formatTokenAmount,
+  NEAR_DECIMALS,
+  NEAR_TOKEN,
+  parseTokenAmount,
+  type Spend,
+  TokenAmountSchema,
+} from './policy';
+import { matchesToolPattern } from './tool-filter';
+import { type Result } from './utils';
+
+export const ApprovalConfigSchema = z.object({
+  threshold: TokenAmountSchema.default('0').describe(
+    'Transactions moving at least this much NEAR require approval, `0` requires it for every transaction.',
+  ),
+  tokenThresholds: z
+    .record(z.string(), TokenAmountSchema)
+    .default({})
+    .describe(
+      'Thresholds of fungible tokens by contract id, in token units. Transfers of other tokens always require approval.',
+    ),
+  tools: z
+    .array(z.string())
+    .default([
+      'account_delete_account',
+      'account_add_access_key',
+      'account_delete_access_keys',
+    ])
+    .describe(
+      'Glob patterns of the tools whose transactions require approval whatever they move.',
+    ),
+  timeout: z
+    .number()
+    .int()
+    .positive()
+    .default(5 * 60 * 1000)
+    .describe(
+      'How long an approval is waited for, and a pending transaction is kept, in milliseconds.',
+    ),
+});
+export type ApprovalConfig = z.infer<typeof ApprovalConfigSchema>;
+
+// what the human approving a transaction is shown
+export type TransactionSummary = {
+  toolName: string;
+  networkId: string;
+  signerAccountId: string;
+  receiverAccountId: string;
+  methodName?: string;
+  // formatted with its symbol, e.g. `10 USDC`
+  amount?: string;
+  // in yoctoNEAR
+  deposit?: bigint;
+  gas?: bigint;
+  // anything else worth reviewing, e.g. the permission of an access key
+  details?: string;
+};
+
+export const formatTransactionSummary = (summary: TransactionSummary) =>
+  [
+    `Tool: ${summary.toolName}`,
+    `Network: ${summary.networkId}`,
+    `Signer: ${summary.signerAccountId}`,
+    `Receiver: ${summary.receiverAccountId}`,
+    summary.methodName !== undefined && `Method: ${summary.methodName}`,
+    summary.amount !== undefined && `Amount: ${summary.amount}`,
+    summary.deposit !== undefined &&
+      `Deposit: ${formatTokenAmount(summary.deposit, NEAR_DECIMALS)} NEAR`,
+    summary.gas !== undefined &&
+      `Gas: ${formatTokenAmount(summary.gas, 12)} TGas`,
+    summary.details,
+  ]
+    .filter((line) => typeof line === 'string')
+    .join('\n');
+
+export type ApprovalPolicy = {
+  timeout: number;
+  isApprovalRequired: (toolName: string, spends: Spend[]) => boolean;
+};
+
+export const createApprovalPolicy = (
+  config: ApprovalConfig = ApprovalConfigSchema.parse({}),
+): ApprovalPolicy => ({
+  timeout: config.timeout,
+  isApprovalRequired: (toolName, spends) =>
+    config.tools.some((pattern) => matchesToolPattern(toolName, pattern)) ||
+    spends.some((spend) => {
+      const threshold =
+        spend.token === NEAR_TOKEN
+          ? config.threshold
+          : config.tokenThresholds[spend.token];
+      return (
+        threshold === undefined ||
+        spend.amount >= parseTokenAmount(threshold, spend.decimals)
+      );
+    }),
+});
+
+export type PendingTransaction<T> = {
+  id: string;
+  summary: TransactionSummary;
+  expiresAt: number;
+  // sign and broadcast the transaction once approved
+  execute: () => Promise<T>;
+};
+
+export type PendingTransactions<T> = {
+  add: (
+    summary: TransactionSummary,
+    execute: () => Promise<T>,
+  ) => PendingTransaction<T>;
+  // remove the transaction from the queue, to be executed or dropped
+  take: (id: string) => Result<PendingTransaction<T>, Error>;
+  list: () => PendingTransaction<T>[];
+};
+
+/**
+ * Queue of the transactions waiting for a `transaction_approve` or
+ * `transaction_reject` call, used when the client cannot elicit an approval.
+ */
+export const createPendingTransactions = <T>(
+  timeout: number,
+): PendingTransactions<T> => {
+  const pending = new Map<string, PendingTransaction<T>>();
+  const removeExpired = () => {
+    const now = Date.now();
+    for (const [id, transaction] of pending) {
+      if (transaction.expiresAt <= now) {
+        pending.delete(id);
+      }
+    }
+  };
+
+  return {
+    add: (summary, execute) => {
+      removeExpired();
+      const transaction = {
+        id: randomUUID(),
+        summary,
+        expiresAt: Date.now() + timeout,
+        execute,
+      };
+      pending.set(transaction.id, transaction);
+      return transaction;
+    },
+    take: (id) => {
+      removeExpired();
+      const transaction = pending.get(id);
+      if (!transaction) {
+        return {
+          ok: false,
+          error: new Error(`No pending transaction ${id}, it may have expired`),
+        };
+      }
+      pending.delete(id);
+      return { ok: true, value: transaction };
+    },
+    list: () => {
+      removeExpired();
+      return [...pending.values()];
+    },
+  };
+};
@@ -0,0 +1,235 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { homedir } from 'os';
+import path from 'path';
+import { z } from 'zod';
+
+import { matchesToolPattern } from './tool-filter';
+import { type Result } from './utils';
+
+export const AUDIT_STATUSES = [
+  // every transaction was broadcast and succeeded
+  'success',
+  // a transaction was broadcast but failed on chain
+  'failure',
+  // the tool failed, e.g. a spending limit or an RPC error
+  'error',
+  // nothing was broadcast, e.g. a dry run or a transaction pending approval
+  'not_broadcast',
+] as const;
+
+export const AuditConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  file: z
+    .string()
+    .default(path.join(homedir(), '.near-mcp', 'audit.jsonl'))
+    .describe('The append-only JSONL file of the audit log.'),
+});
+export type AuditConfig = z.infer<typeof AuditConfigSchema>;
+
+export const AuditEntrySchema = z.object({
+  timestamp: z.string().datetime(),
+  sessionId: z.string().optional(),
+  // the authenticated principal of the session, if any
+  principal: z.string().optional(),
+  toolName: z.string(),
+  args: z.record(z.string(), z.unknown()),
+  networkId: z.string().optional(),
+  signerAccountId: z.string().optional(),
+  publicKey: z.string().optional(),
+  transactionHashes: z.array(z.string()).default([]),
+  status: z.enum(AUDIT_STATUSES),
+  error: z.string().optional(),
+});
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
+
+export const AuditQuerySchema = z.object({
+  toolName: z
+    .string()
+    .optional()
+    .describe('Glob pattern of the tool names, e.g. `tokens_*`.'),
+  signerAccountId: z.string().optional(),
+  networkId: z.string().optional(),
+  status: z.enum(AUDIT_STATUSES).optional(),
+  transactionHash: z.string().optional(),
+  principal: z.string().optional(),
+  since: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('Only entries at or after this ISO 8601 time.'),
+  until: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('Only entries before this ISO 8601 time.'),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('The most recent entries to return, all when omitted.'),
+});
+export type AuditQuery = z.infer<typeof AuditQuerySchema>;
+
+export type AuditLog = {
+  record: (entry: AuditEntry) => Promise<Result<void, Error>>;
+  query: (query: AuditQuery) => Promise<Result<AuditEntry[], Error>>;
+};
+
+/**
+ * Read the entries of an audit log file, oldest first. A missing file is
+ * an empty log, and lines that are not valid entries are reported as errors.
+ */
+export const readAuditLog = async (
+  file: string,
+): Promise<Result<AuditEntry[], Error>> => {
+  const contentResult: Result<string, Error> = await (async () => {
+    try {
+      return { ok: true, value: await readFile(file, 'utf-8') };
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { ok: true, value: '' };
+      }
+      return {
+        ok: false,
+        error: new Error(`Failed to read audit log ${file}: ${String(e)}`),
+      };
+    }
+  })();
+  if (!contentResult.ok) {
+    return contentResult;
+  }
+
+  const entries: AuditEntry[] = [];
+  const lines = contentResult.value.split('\n');
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(AuditEntrySchema.parse(JSON.parse(line)));
+    } catch (e) {
+      return {
+        ok: false,
+        error: new Error(
+          `Invalid audit log entry at ${file}:${index + 1}: ${String(e)}`,
+        ),
+      };
+    }
+  }
+  return { ok: true, value: entries };
+};
+
+export const filterAuditEntries = (
+  entries: AuditEntry[],
+  query: AuditQuery,
+): AuditEntry[] => {
+  const matches = entries.filter(
+    (entry) =>
+      (!query.toolName || matchesToolPattern(entry.toolName, query.toolName)) &&
+      (!query.signerAccountId ||
+        entry.signerAccountId === query.signerAccountId) &&
+      (!query.networkId || entry.networkId === query.networkId) &&
+      (!query.status || entry.status === query.status) &&
+      (!query.transactionHash ||
+        entry.transactionHashes.includes(query.transactionHash)) &&
+      (!query.principal || entry.principal === query.principal) &&
+      (!query.since ||
+        Date.parse(entry.timestamp) >= Date.parse(query.since)) &&
+      (!query.until || Date.parse(entry.timestamp) < Date.parse(query.until)),
+  );
+  return query.limit !== undefined ? matches.slice(-query.limit) : matches;
+};
+
+export const AUDIT_EXPORT_FORMATS = ['jsonl', 'json', 'csv'] as const;
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+const AUDIT_CSV_COLUMNS = [
+  'timestamp',
+  'sessionId',
+  'principal',
+  'toolName',
+  'networkId',
+  'signerAccountId',
+  'publicKey',
+  'transactionHashes',
+  'status',
+  'error',
+  'args',
+] as const;
+
+const toCsvField = (value: unknown) => {
+  const field =
+    value === undefined
+      ? ''
+      : typeof value === 'string'
+        ? value
+        : Array.isArray(value) &&
+            value.every((item) => typeof item === 'string')
+          ? value.join(' ')
+          : JSON.stringify(value);
+  return /[",\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+export const formatAuditEntries = (
+  entries: AuditEntry[],
+  format: AuditExportFormat,
+): string => {
+  switch (format) {
+    case 'jsonl':
+      return entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+    case 'json':
+      return `${JSON.stringify(entries, null, 2)}\n`;
+    case 'csv':
+      return [
+        AUDIT_CSV_COLUMNS.join(','),
+        ...entries.map((entry) =>
+          AUDIT_CSV_COLUMNS.map((column) => toCsvField(entry[column])).join(
+            ',',
+          ),
+        ),
+      ]
+        .map((line) => `${line}\n`)
+        .join('');
+  }
+};
+
+export const createAuditLog = (
+  config: AuditConfig = AuditConfigSchema.parse({}),
+): AuditLog => {
+  // appends are chained so entries are written in the order they happened
+  let pendingAppend = Promise.resolve();
+
+  return {
+    record: async (entry) => {
+      if (!config.enabled) {
+        return { ok: true, value: undefined };
+      }
+      const line = `${JSON.stringify(entry)}\n`;
+      const append = pendingAppend.then(async () => {
+        await mkdir(path.dirname(config.file), { recursive: true });
+        await appendFile(config.file, line, { mode: 0o600 });
+      });
+      pendingAppend = append.catch(() => undefined);
+      try {
+        await append;
+        return { ok: true, value: undefined };
+      } catch (e) {
+        return {
+          ok: false,
+          error: new Error(`Failed to write the audit log: ${String(e)}`),
+        };
+      }
+    },
+    query: async (query) => {
+      const entriesResult = await readAuditLog(config.file);
+      if (!entriesResult.ok) {
+        return entriesResult;
+      }
+      return {
+        ok: true,
+        value: filterAuditEntries(entriesResult.value, query),
+      };
+    },
+  };
+};
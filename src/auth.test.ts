@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+
+import assert from 'assert/strict';
+
+import {
+  AuthConfigSchema,
+  authenticate,
+  principalDirectoryName,
+  signAuthToken,
+  verifyAuthToken,
+} from './auth';
+
+const SECRET = 'a-secret-of-at-least-thirty-two-characters';
+
+describe('verifyAuthToken', () => {
+  it('accepts a token it signed', () => {
+    const token = signAuthToken(SECRET, { sub: 'alice', tools: ['account_*'] });
+    const result = verifyAuthToken(SECRET, token);
+    assert.ok(result.ok);
+    assert.deepEqual(result.value, { sub: 'alice', tools: ['account_*'] });
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const token = signAuthToken(`${SECRET}-other`, { sub: 'alice' });
+    const result = verifyAuthToken(SECRET, token);
+    assert.ok(!result.ok);
+    assert.match(result.error.message, /signature/);
+  });
+
+  it('rejects a tampered payload', () => {
+    const [, signature] = signAuthToken(SECRET, { sub: 'alice' }).split('.');
+    const payload = Buffer.from(JSON.stringify({ sub: 'root' })).toString(
+      'base64url',
+    );
+    assert.ok(!verifyAuthToken(SECRET, `${payload}.${signature}`).ok);
+  });
+
+  it('rejects an expired token', () => {
+    const token = signAuthToken(SECRET, {
+      sub: 'alice',
+      exp: Math.floor(Date.now() / 1000) - 60,
+    });
+    const result = verifyAuthToken(SECRET, token);
+    assert.ok(!result.ok);
+    assert.match(result.error.message, /expired/);
+  });
+
+  it('rejects a malformed token', () => {
+    assert.ok(!verifyAuthToken(SECRET, 'no-signature').ok);
+    assert.ok(!verifyAuthToken(SECRET, 'a.b.c').ok);
+  });
+});
+
+describe('authenticate', () => {
+  const auth = AuthConfigSchema.parse({
+    apiKeys: [{ name: 'alice', key: 'alice-key-0123456789' }],
+    hmacSecret: SECRET,
+    principalKeystoreRoot: '/keys',
+  });
+
+  it('tells API keys and tokens of the same name apart', () => {
+    const apiKeyResult = authenticate(auth, 'alice-key-0123456789');
+    const tokenResult = authenticate(
+      auth,
+      signAuthToken(SECRET, { sub: 'alice' }),
+    );
+    assert.ok(apiKeyResult.ok && tokenResult.ok);
+    assert.equal(apiKeyResult.value.kind, 'apiKey');
+    assert.equal(tokenResult.value.kind, 'token');
+    assert.notDeepEqual(
+      apiKeyResult.value.keystore,
+      tokenResult.value.keystore,
+    );
+  });
+
+  it('rejects unknown credentials', () => {
+    assert.ok(!authenticate(auth, 'unknown-key-0123456789').ok);
+  });
+
+  it('rejects duplicate API key names', () => {
+    const result = AuthConfigSchema.safeParse({
+      apiKeys: [
+        { name: 'alice', key: 'alice-key-0123456789' },
+        { name: 'alice', key: 'other-key-0123456789' },
+      ],
+    });
+    assert.ok(!result.success);
+  });
+});
+
+describe('principalDirectoryName', () => {
+  it('maps names that differ only by unsafe characters apart', () => {
+    assert.notEqual(
+      principalDirectoryName({ kind: 'token', name: 'a/b' }),
+      principalDirectoryName({ kind: 'token', name: 'a_b' }),
+    );
+  });
+
+  it('never leaves the keystore root', () => {
+    for (const name of ['..', '.', '../alice', 'a/../../b']) {
+      const directory = principalDirectoryName({ kind: 'token', name });
+      assert.match(directory, /^token-[0-9a-f]{64}$/);
+    }
+  });
+
+  it('is stable', () => {
+    assert.equal(
+      principalDirectoryName({ kind: 'apiKey', name: 'alice' }),
+      principalDirectoryName({ kind: 'apiKey', name: 'alice' }),
+    );
+  });
+});
@@ -0,0 +1,330 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import {
+  type NextFunction,
+  type Request,
+  type RequestHandler,
+  type Response,
+} from 'express';
+import path from 'path';
+import { z } from 'zod';
+
+import { readJsonFile, type Result } from './utils';
+
+export const API_KEYS_ENV = 'NEAR_MCP_API_KEYS';
+export const AUTH_HMAC_SECRET_ENV = 'NEAR_MCP_AUTH_HMAC_SECRET';
+
+const KeystoreBindingSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('directory'),
+    path: z.string().describe('The keystore directory of the principal.'),
+    encrypted: z
+      .boolean()
+      .default(false)
+      .describe(
+        'Whether the keystore is encrypted with the passphrase of the server keystore.',
+      ),
+  }),
+  z.object({
+    type: z
+      .literal('memory')
+      .describe(
+        'An in-memory keystore, kept for the lifetime of the server process.',
+      ),
+  }),
+]);
+export type KeystoreBinding = z.infer<typeof KeystoreBindingSchema>;
+
+const ApiKeySchema = z.object({
+  name: z.string().min(1).describe('A name identifying the holder of the key.'),
+  key: z.string().min(16, 'API keys must be at least 16 characters long'),
+  tools: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Patterns of the tools this key may use, e.g. `account_*`. All tools when omitted.',
+    ),
+  keystore: KeystoreBindingSchema.optional().describe(
+    'The keystore the sessions of this key are bound to.',
+  ),
+});
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+
+export const AuthConfigSchema = z.object({
+  apiKeys: z
+    .array(ApiKeySchema)
+    .default([])
+    // the name identifies the principal of the sessions and its keystore
+    .superRefine((apiKeys, ctx) => {
+      apiKeys.forEach((apiKey, index) => {
+        if (apiKeys.findIndex(({ name }) => name === apiKey.name) < index) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Duplicate API key name ${apiKey.name}`,
+            path: [index, 'name'],
+          });
+        }
+      });
+    }),
+  hmacSecret: z
+    .string()
+    .min(32, 'The HMAC secret must be at least 32 characters long')
+    .optional(),
+  principalKeystoreRoot: z
+    .string()
+    .optional()
+    .describe(
+      'When set, principals without an explicit keystore are bound to a directory of `<root>` named after the principal, see `principalDirectoryName`, instead of the server keystore.',
+    ),
+  principalKeystoreEncrypted: z
+    .boolean()
+    .default(false)
+    .describe(
+      'Whether the keystores under `principalKeystoreRoot` are encrypted with the passphrase of the server keystore.',
+    ),
+});
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
+const AuthTokenPayloadSchema = z.object({
+  sub: z.string().min(1),
+  exp: z
+    .number()
+    .int()
+    .optional()
+    .describe('Expiry of the token as a unix timestamp in seconds.'),
+  tools: z.array(z.string()).optional(),
+});
+export type AuthTokenPayload = z.infer<typeof AuthTokenPayloadSchema>;
+
+export type AuthPrincipal = {
+  // API keys and tokens are distinct principals, even with the same name
+  kind: 'apiKey' | 'token';
+  name: string;
+  allowedTools?: string[];
+  // the keystore of the principal, the server keystore when omitted
+  keystore?: KeystoreBinding;
+};
+
+export const getPrincipalId = (principal: AuthPrincipal) =>
+  `${principal.kind}:${principal.name}`;
+
+export const isAuthEnabled = (auth: AuthConfig) =>
+  auth.apiKeys.length > 0 || auth.hmacSecret !== undefined;
+
+/**
+ * Load the auth config from an optional JSON file, then merge in the
+ * comma separated API keys from `NEAR_MCP_API_KEYS` and the HMAC secret
+ * from `NEAR_MCP_AUTH_HMAC_SECRET`.
+ */
+export const loadAuthConfig = async (
+  authFile?: string,
+): Promise<Result<AuthConfig, Error>> => {
+  const fileConfigResult: Result<unknown, Error> = authFile
+    ? await readJsonFile(authFile)
+    : { ok: true, value: {} };
+  if (!fileConfigResult.ok) {
+    return fileConfigResult;
+  }
+
+  const envApiKeys = (process.env[API_KEYS_ENV] || '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter((key) => key.length > 0)
+    .map((key, i) => ({ name: `env-key-${i + 1}`, key }));
+  const envHmacSecret = process.env[AUTH_HMAC_SECRET_ENV];
+
+  const parsedConfig = AuthConfigSchema.safeParse(fileConfigResult.value);
+  if (!parsedConfig.success) {
+    return {
+      ok: false,
+      error: new Error(`Invalid auth config: ${parsedConfig.error.message}`),
+    };
+  }
+  const mergedConfig = AuthConfigSchema.safeParse({
+    ...parsedConfig.data,
+    apiKeys: [...parsedConfig.data.apiKeys, ...envApiKeys],
+    hmacSecret: envHmacSecret || parsedConfig.data.hmacSecret,
+  });
+  if (!mergedConfig.success) {
+    return {
+      ok: false,
+      error: new Error(`Invalid auth config: ${mergedConfig.error.message}`),
+    };
+  }
+  return { ok: true, value: mergedConfig.data };
+};
+
+const hmacSignature = (secret: string, data: string) =>
+  createHmac('sha256', secret).update(data).digest('base64url');
+
+// compare digests so the comparison is constant time regardless of length
+const safeEqual = (a: string, b: string) =>
+  timingSafeEqual(
+    createHash('sha256').update(a).digest(),
+    createHash('sha256').update(b).digest(),
+  );
+
+/**
+ * Sign a token of the form `<base64url payload>.<base64url signature>`.
+ */
+export const signAuthToken = (
+  secret: string,
+  payload: AuthTokenPayload,
+): string => {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    'base64url',
+  );
+  return `${encodedPayload}.${hmacSignature(secret, encodedPayload)}`;
+};
+
+export const verifyAuthToken = (
+  secret: string,
+  token: string,
+): Result<AuthTokenPayload, Error> => {
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return { ok: false, error: new Error('Malformed auth token') };
+  }
+  if (!safeEqual(signature, hmacSignature(secret, encodedPayload))) {
+    return { ok: false, error: new Error('Invalid auth token signature') };
+  }
+
+  const payloadResult: Result<AuthTokenPayload, Error> = (() => {
+    try {
+      return {
+        ok: true,
+        value: AuthTokenPayloadSchema.parse(
+          JSON.parse(Buffer.from(encodedPayload, 'base64url').toString()),
+        ),
+      };
+    } catch (e) {
+      return {
+        ok: false,
+        error: new Error(`Invalid auth token payload: ${String(e)}`),
+      };
+    }
+  })();
+  if (!payloadResult.ok) {
+    return payloadResult;
+  }
+  const payload = payloadResult.value;
+  if (payload.exp !== undefined && payload.exp * 1000 < Date.now()) {
+    return { ok: false, error: new Error('Auth token has expired') };
+  }
+  return { ok: true, value: payload };
+};
+
+/**
+ * The directory of a principal under `principalKeystoreRoot`: the kind of
+ * the principal and the sha256 of its name, so that any two principals get
+ * distinct directories whatever characters their names contain.
+ */
+export const principalDirectoryName = (
+  principal: Pick<AuthPrincipal, 'kind' | 'name'>,
+) =>
+  `${principal.kind}-${createHash('sha256').update(principal.name).digest('hex')}`;
+
+const principalKeystore = (
+  auth: AuthConfig,
+  principal: Pick<AuthPrincipal, 'kind' | 'name'>,
+  keystore?: KeystoreBinding,
+): KeystoreBinding | undefined => {
+  if (keystore) {
+    return keystore;
+  }
+  if (auth.principalKeystoreRoot) {
+    return {
+      type: 'directory',
+      path: path.join(
+        auth.principalKeystoreRoot,
+        principalDirectoryName(principal),
+      ),
+      encrypted: auth.principalKeystoreEncrypted,
+    };
+  }
+  return undefined;
+};
+
+export const getApiKeyPrincipal = (
+  auth: AuthConfig,
+  apiKey: ApiKey,
+): AuthPrincipal => ({
+  kind: 'apiKey',
+  name: apiKey.name,
+  allowedTools: apiKey.tools,
+  keystore: principalKeystore(
+    auth,
+    { kind: 'apiKey', name: apiKey.name },
+    apiKey.keystore,
+  ),
+});
+
+export const authenticate = (
+  auth: AuthConfig,
+  credential: string,
+): Result<AuthPrincipal, Error> => {
+  const apiKey = auth.apiKeys.find((apiKey) =>
+    safeEqual(apiKey.key, credential),
+  );
+  if (apiKey) {
+    return { ok: true, value: getApiKeyPrincipal(auth, apiKey) };
+  }
+
+  if (auth.hmacSecret && credential.includes('.')) {
+    const payloadResult = verifyAuthToken(auth.hmacSecret, credential);
+    if (!payloadResult.ok) {
+      return payloadResult;
+    }
+    return {
+      ok: true,
+      value: {
+        kind: 'token',
+        name: payloadResult.value.sub,
+        allowedTools: payloadResult.value.tools,
+        keystore: principalKeystore(auth, {
+          kind: 'token',
+          name: payloadResult.value.sub,
+        }),
+      },
+    };
+  }
+  return { ok: false, error: new Error('Invalid credentials') };
+};
+
+const getRequestCredential = (req: Request): string | undefined => {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.substring('Bearer '.length).trim();
+  }
+  const apiKey = req.headers['x-api-key'];
+  return typeof apiKey === 'string' ? apiKey : undefined;
+};
+
+/**
+ * Express middleware rejecting any request without a valid API key or
+ * token. The authenticated principal is stored in `res.locals.principal`.
+ */
+export const createAuthMiddleware =
+  (auth: AuthConfig): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const credential = getRequestCredential(req);
+    if (!credential) {
+      res
+        .status(401)
+        .set('WWW-Authenticate', 'Bearer')
+        .json({ error: 'Missing API key or bearer token' });
+      return;
+    }
+    const principalResult = authenticate(auth, credential);
+    if (!principalResult.ok) {
+      res
+        .status(401)
+        .set('WWW-Authenticate', 'Bearer error="invalid_token"')
+        .json({ error: principalResult.error.message });
+      return;
+    }
+    res.locals.principal = principalResult.value;
+    next();
+  };
+
+export const getRequestPrincipal = (res: Response): AuthPrincipal | undefined =>
+  res.locals.principal as AuthPrincipal | undefined;
@@ -0,0 +1,127 @@
+import { Command, Flags } from '@oclif/core';
+import { writeFile } from 'fs/promises';
+
+import {
+  AUDIT_EXPORT_FORMATS,
+  AUDIT_STATUSES,
+  type AuditExportFormat,
+  AuditQuerySchema,
+  CONFIG_FILE_NAME,
+  filterAuditEntries,
+  formatAuditEntries,
+  loadServerConfig,
+  readAuditLog,
+} from '../../../';
+
+export default class AuditExport extends Command {
+  static description =
+    'Search and export the audit log of the tool calls that signed transactions';
+
+  static examples = [
+    '<%= config.bin %> audit export',
+    '<%= config.bin %> audit export --signer alice.near --since 2025-01-01T00:00:00Z',
+    "<%= config.bin %> audit export --tool 'tokens_*' --status failure --format csv --output failures.csv",
+  ];
+
+  static flags = {
+    config: Flags.string({
+      description: `Config file locating the audit log. Defaults to the first ${CONFIG_FILE_NAME} found in the working directory or ~/.config/near-mcp`,
+      helpValue: '<path>',
+    }),
+    file: Flags.string({
+      description:
+        'The audit log file, overriding the config (default: ~/.near-mcp/audit.jsonl)',
+      helpValue: '<path>',
+    }),
+    tool: Flags.string({
+      description: 'Glob pattern of the tool names, e.g. tokens_*',
+      helpValue: '<pattern>',
+    }),
+    signer: Flags.string({
+      description: 'Only the entries of this signer account',
+      helpValue: '<account>',
+    }),
+    network: Flags.string({
+      description: 'Only the entries of this network',
+      helpValue: '<network>',
+    }),
+    status: Flags.string({
+      description: 'Only the entries with this final status',
+      options: [...AUDIT_STATUSES],
+      helpValue: '<status>',
+    }),
+    'transaction-hash': Flags.string({
+      description: 'Only the entry of this transaction',
+      helpValue: '<hash>',
+    }),
+    principal: Flags.string({
+      description:
+        'Only the entries of the sessions of this principal, e.g. apiKey:alice or token:bob',
+      helpValue: '<kind:name>',
+    }),
+    since: Flags.string({
+      description: 'Only the entries at or after this ISO 8601 time',
+      helpValue: '<time>',
+    }),
+    until: Flags.string({
+      description: 'Only the entries before this ISO 8601 time',
+      helpValue: '<time>',
+    }),
+    limit: Flags.integer({
+      description: 'Only the most recent entries',
+      helpValue: '<count>',
+    }),
+    format: Flags.string({
+      description: 'Format of the exported entries',
+      options: [...AUDIT_EXPORT_FORMATS],
+      default: 'jsonl',
+    }),
+    output: Flags.string({
+      description: 'File to write the entries to, standard output when omitted',
+      helpValue: '<path>',
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(AuditExport);
+    try {
+      const configResult = await loadServerConfig(flags.config);
+      if (!configResult.ok) {
+        throw configResult.error;
+      }
+      const queryResult = AuditQuerySchema.safeParse({
+        toolName: flags.tool,
+        signerAccountId: flags.signer,
+        networkId: flags.network,
+        status: flags.status,
+        transactionHash: flags['transaction-hash'],
+        principal: flags.principal,
+        since: flags.since,
+        until: flags.until,
+        limit: flags.limit,
+      });
+      if (!queryResult.success) {
+        throw new Error(`Invalid query: ${queryResult.error.message}`);
+      }
+
+      const file = flags.file ?? configResult.value.audit.file;
+      const entriesResult = await readAuditLog(file);
+      if (!entriesResult.ok) {
+        throw entriesResult.error;
+      }
+      const exported = formatAuditEntries(
+        filterAuditEntries(entriesResult.value, queryResult.data),
+        flags.format as AuditExportFormat,
+      );
+      if (flags.output) {
+        await writeFile(flags.output, exported, { mode: 0o600 });
+      } else {
+        process.stdout.write(exported);
+      }
+    } catch (error) {
+      this.error(
+        error instanceof Error ? error.message : 'Unknown error occurred',
+      );
+    }
+  }
+}
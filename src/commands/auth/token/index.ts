@@ -0,0 +1,68 @@
+import { Command, Flags } from '@oclif/core';
+
+import {
+  AUTH_HMAC_SECRET_ENV,
+  loadAuthConfig,
+  signAuthToken,
+} from '../../../auth';
+
+export default class AuthToken extends Command {
+  static description =
+    'Create a signed bearer token for the remote NEAR MCP server';
+
+  static examples = [
+    '<%= config.bin %> auth token --subject alice',
+    '<%= config.bin %> auth token --subject support-bot --expires-in 86400 --tools account_view_account_summary',
+  ];
+
+  static flags = {
+    subject: Flags.string({
+      description: 'Name of the principal the token is issued to',
+      required: true,
+      helpValue: '<name>',
+    }),
+    'expires-in': Flags.integer({
+      description: 'Number of seconds until the token expires',
+      helpValue: '<seconds>',
+    }),
+    tools: Flags.string({
+      description: 'Tool the token may use, repeat to allow several tools',
+      multiple: true,
+      helpValue: '<tool>',
+    }),
+    'auth-file': Flags.string({
+      description: `JSON file holding the token secret. Defaults to ${AUTH_HMAC_SECRET_ENV}`,
+      helpValue: '<path>',
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(AuthToken);
+    try {
+      const authResult = await loadAuthConfig(flags['auth-file']);
+      if (!authResult.ok) {
+        throw authResult.error;
+      }
+      const hmacSecret = authResult.value.hmacSecret;
+      if (!hmacSecret) {
+        throw new Error(
+          `No token secret configured, set ${AUTH_HMAC_SECRET_ENV} or hmacSecret in the auth file`,
+        );
+      }
+
+      const token = signAuthToken(hmacSecret, {
+        sub: flags.subject,
+        exp:
+          flags['expires-in'] !== undefined
+            ? Math.floor(Date.now() / 1000) + flags['expires-in']
+            : undefined,
+        tools: flags.tools,
+      });
+      console.log(token);
+    } catch (error) {
+      this.error(
+        error instanceof Error ? error.message : 'Unknown error occurred',
+      );
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { UnencryptedFileSystemKeyStore } from '@near-js/keystores-node';
+import { Command, Flags } from '@oclif/core';
+import { rm } from 'fs/promises';
+import { homedir } from 'os';
+import path from 'path';
+
+import {
+  EncryptedFileSystemKeyStore,
+  getKeystorePassphrase,
+  isEncryptedKeystore,
+  KEYSTORE_PASSPHRASE_ENV,
+  migrateToEncryptedKeystore,
+} from '../../../keystore';
+
+export default class KeystoreMigrate extends Command {
+  static description = `Migrate a plaintext NEAR keystore into a passphrase-encrypted keystore. The passphrase is read from ${KEYSTORE_PASSPHRASE_ENV} or prompted for`;
+
+  static examples = [
+    '<%= config.bin %> keystore migrate',
+    '<%= config.bin %> keystore migrate --from ~/.near-keystore --to ~/.near-keystore-encrypted --delete-plaintext',
+  ];
+
+  static flags = {
+    from: Flags.string({
+      description: 'Directory of the plaintext keystore',
+      default: path.join(homedir(), '.near-keystore'),
+      helpValue: '<path>',
+    }),
+    to: Flags.string({
+      description: 'Directory of the encrypted keystore',
+      default: path.join(homedir(), '.near-keystore-encrypted'),
+      helpValue: '<path>',
+    }),
+    'delete-plaintext': Flags.boolean({
+      description:
+        'Delete the plaintext keystore once every key has been migrated',
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(KeystoreMigrate);
+    try {
+      if (path.resolve(flags.from) === path.resolve(flags.to)) {
+        throw new Error('The encrypted keystore must be in another directory');
+      }
+      if (isEncryptedKeystore(flags.from)) {
+        throw new Error(`Keystore ${flags.from} is already encrypted`);
+      }
+
+      const passphrase = await getKeystorePassphrase(flags.to);
+      const destinationResult = await EncryptedFileSystemKeyStore.open(
+        flags.to,
+        passphrase,
+      );
+      if (!destinationResult.ok) {
+        throw destinationResult.error;
+      }
+
+      const migrationResult = await migrateToEncryptedKeystore(
+        new UnencryptedFileSystemKeyStore(flags.from),
+        destinationResult.value,
+      );
+      if (!migrationResult.ok) {
+        throw migrationResult.error;
+      }
+      for (const entry of migrationResult.value) {
+        console.log(`Migrated ${entry}`);
+      }
+      console.log(
+        `Migrated ${migrationResult.value.length} keys to ${flags.to}`,
+      );
+
+      if (flags['delete-plaintext']) {
+        await rm(flags.from, { recursive: true });
+        console.log(`Deleted plaintext keystore ${flags.from}`);
+      }
+    } catch (error) {
+      this.error(
+        error instanceof Error ? error.message : 'Unknown error occurred',
+      );
+    }
+  }
+}
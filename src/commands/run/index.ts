@@ -1,8 +1,29 @@
 import { Command, Flags } from '@oclif/core';
-import { homedir } from 'os';
-import path from 'path';
 
-import { runMcpServer } from '../../';
+import {
+  API_KEYS_ENV,
+  AUTH_HMAC_SECRET_ENV,
+  createAddressBook,
+  createApprovalPolicy,
+  createAuditLog,
+  createRelayerPolicy,
+  createSpendingPolicy,
+  createToolFilter,
+  getKeystorePassphrase,
+  isEncryptedKeystore,
+  KEYSTORE_ENV,
+  KEYSTORE_PASSPHRASE_ENV,
+  loadAuthConfig,
+  loadRpcConfig,
+  loadServerConfig,
+  LOG_LEVELS,
+  type LogLevel,
+  RPC_URLS_ENV_PREFIX,
+  runMcpServer,
+  SERVER_TRANSPORTS,
+  type ServerTransport,
+} from '../../';
+import { toolFilterFlags } from '../../flags';
 
 export default class Run extends Command {
   static description = 'Run the NEAR MCP server';
@@ -12,41 +33,134 @@ export default class Run extends Command {
     '<%= config.bin %> run --key-dir ~/custom-near-keystore',
     '<%= config.bin %> run --remote',
     '<%= config.bin %> run --remote --port 4000',
+    '<%= config.bin %> run --transport streamable-http --port 4000',
+    '<%= config.bin %> run --transport streamable-http --auth-file ./auth.json',
+    '<%= config.bin %> run --encrypted --key-dir ~/.near-keystore-encrypted',
+    '<%= config.bin %> run --config ./near-mcp.config.json --default-network testnet',
+    '<%= config.bin %> run --read-only',
+    "<%= config.bin %> run --tools 'account_*,tokens_*' --exclude-tools account_export_account",
+    '<%= config.bin %> run --profile defi',
   ];
 
   static flags = {
+    ...toolFilterFlags,
     'key-dir': Flags.string({
-      description: 'Directory for the NEAR keystore',
-      default: path.join(homedir(), '.near-keystore'),
+      description: `Directory for the NEAR keystore (default: ~/.near-keystore). Can also be set with ${KEYSTORE_ENV}`,
       helpValue: '<path>',
     }),
+    encrypted: Flags.boolean({
+      description: `Use a passphrase-encrypted keystore, created if it does not exist. Keystores that are already encrypted are detected automatically. The passphrase is read from ${KEYSTORE_PASSPHRASE_ENV} or prompted for`,
+      default: false,
+    }),
     remote: Flags.boolean({
-      description: 'Start the server with SSE transport instead of stdio',
+      description:
+        'Start the server with SSE transport instead of stdio (same as --transport sse)',
       default: false,
+      exclusive: ['transport'],
+    }),
+    transport: Flags.string({
+      description:
+        'Transport to serve the MCP server over. streamable-http also serves the legacy SSE endpoints',
+      options: [...SERVER_TRANSPORTS],
+      helpValue: '<transport>',
     }),
     port: Flags.integer({
-      description: 'Port to use for the remote server (when --remote is used)',
-      default: 3001,
+      description:
+        'Port to use for the remote server (when --remote or an HTTP transport is used, default: 3001)',
       helpValue: '<port>',
     }),
+    'default-network': Flags.string({
+      description:
+        'Network used by tools when no network id is given (default: mainnet)',
+      helpValue: '<network>',
+    }),
+    'log-level': Flags.string({
+      description:
+        'Lowest level of the log messages sent to the client (default: info)',
+      options: [...LOG_LEVELS],
+      helpValue: '<level>',
+    }),
+    'rpc-config': Flags.string({
+      description: `JSON file with the RPC endpoints of each network, their retry settings and custom networks such as localnet. Endpoints can also be set with ${RPC_URLS_ENV_PREFIX}<NETWORK>, e.g. ${RPC_URLS_ENV_PREFIX}MAINNET`,
+      helpValue: '<path>',
+    }),
+    'auth-file': Flags.string({
+      description: `JSON file with the API keys and token secret accepted by the remote server. Keys can also be set with ${API_KEYS_ENV} and the secret with ${AUTH_HMAC_SECRET_ENV}`,
+      helpValue: '<path>',
+    }),
   };
 
   public async run(): Promise<void> {
     const { flags } = await this.parse(Run);
-    const keyDir = (() => {
-      if (flags['key-dir']) {
-        return flags['key-dir'];
+    try {
+      const configResult = await loadServerConfig(flags.config, {
+        keyDir: flags['key-dir'],
+        encrypted: flags.encrypted || undefined,
+        defaultNetwork: flags['default-network'],
+        tools: flags.tools,
+        excludeTools: flags['exclude-tools'],
+        profile: flags.profile,
+        readOnly: flags['read-only'] || undefined,
+        logLevel: flags['log-level'] as LogLevel | undefined,
+        transport: {
+          type: (flags.transport ?? (flags.remote ? 'sse' : undefined)) as
+            ServerTransport | undefined,
+          port: flags.port,
+          authFile: flags['auth-file'],
+        },
+      });
+      if (!configResult.ok) {
+        throw configResult.error;
       }
-
-      const envKeyDir = process.env.NEAR_KEYSTORE;
-      if (envKeyDir) {
-        return envKeyDir;
+      const config = configResult.value;
+      const keyDir = config.keyDir;
+      const toolFilterResult = createToolFilter(config);
+      if (!toolFilterResult.ok) {
+        throw toolFilterResult.error;
       }
 
-      return path.join(homedir(), '.near-keystore');
-    })();
-    try {
-      await runMcpServer(keyDir, flags.remote, flags.port);
+      const authResult = await loadAuthConfig(config.transport.authFile);
+      if (!authResult.ok) {
+        throw authResult.error;
+      }
+      const rpcResult = await loadRpcConfig(flags['rpc-config'], config.rpc);
+      if (!rpcResult.ok) {
+        throw rpcResult.error;
+      }
+      const spendingPolicyResult = config.policy
+        ? await createSpendingPolicy(config.policy)
+        : undefined;
+      if (spendingPolicyResult && !spendingPolicyResult.ok) {
+        throw spendingPolicyResult.error;
+      }
+      const keystorePassphrase =
+        config.encrypted || isEncryptedKeystore(keyDir)
+          ? await getKeystorePassphrase(keyDir)
+          : undefined;
+      await runMcpServer(keyDir, {
+        transport: config.transport.type,
+        port: config.transport.port,
+        sessionIdleTimeout: config.transport.sessionIdleTimeout,
+        auth: authResult.value,
+        keystorePassphrase,
+        rpc: rpcResult.value,
+        toolFilter: toolFilterResult.value,
+        readOnly: config.readOnly,
+        spendingPolicy: spendingPolicyResult?.value,
+        addressBook: createAddressBook(config.addressBook),
+        approvalPolicy: config.approval
+          ? createApprovalPolicy(config.approval)
+          : undefined,
+        auditLog: createAuditLog(config.audit),
+        relayerPolicy: config.relayer
+          ? createRelayerPolicy(config.relayer)
+          : undefined,
+        defaultNetwork: config.defaultNetwork,
+        defaultGas: config.defaultGas,
+        contracts: config.contracts,
+        contractTools: config.contractTools,
+        logLevel: config.logLevel,
+      });
     } catch (error) {
       this.error(
         error instanceof Error ? error.message : 'Unknown error occurred',
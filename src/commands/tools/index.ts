@@ -1,21 +1,53 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 import { Command } from '@oclif/core';
-import { homedir } from 'os';
-import path from 'path';
 
+import { loadServerConfig } from '../../config';
+import { toolFilterFlags } from '../../flags';
+import { createRpcProviders, loadRpcConfig } from '../../rpc';
 import { createMcpServer } from '../../services';
+import { createToolFilter } from '../../tool-filter';
 import { stringify_bigint } from '../../utils';
 
 export default class Tools extends Command {
   static description = 'List all available tools in the NEAR MCP server';
 
-  static examples = ['<%= config.bin %> tools'];
+  static examples = [
+    '<%= config.bin %> tools',
+    "<%= config.bin %> tools --tools 'account_*' --read-only",
+    '<%= config.bin %> tools --profile wallet',
+  ];
+
+  static flags = toolFilterFlags;
 
   public async run(): Promise<void> {
-    const keyDir = path.join(homedir(), '.near-keystore');
+    const { flags } = await this.parse(Tools);
     try {
-      const mcp = await createMcpServer(keyDir);
+      const configResult = await loadServerConfig(flags.config, {
+        tools: flags.tools,
+        excludeTools: flags['exclude-tools'],
+        profile: flags.profile,
+        readOnly: flags['read-only'] || undefined,
+      });
+      if (!configResult.ok) {
+        throw configResult.error;
+      }
+      const config = configResult.value;
+      const toolFilterResult = createToolFilter(config);
+      if (!toolFilterResult.ok) {
+        throw toolFilterResult.error;
+      }
+      const rpcResult = await loadRpcConfig(undefined, config.rpc);
+      if (!rpcResult.ok) {
+        throw rpcResult.error;
+      }
+
+      const mcp = await createMcpServer(config.keyDir, {
+        toolFilter: toolFilterResult.value,
+        readOnly: config.readOnly,
+        rpc: createRpcProviders(rpcResult.value),
+        defaultNetwork: config.defaultNetwork,
+      });
       const client = new Client({
         name: 'near-mcp-client',
         version: '1.0.0',
@@ -0,0 +1,248 @@
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import path from 'path';
+import { z } from 'zod';
+
+import { AddressBookConfigSchema } from './address-book';
+import { ApprovalConfigSchema } from './approval';
+import { AuditConfigSchema } from './audit';
+import { ContractToolsConfigSchema } from './contract-tools';
+import { NetworkContractsSchema } from './network';
+import { SpendingPolicyConfigSchema } from './policy';
+import { RelayerConfigSchema } from './relayer';
+import { RpcConfigSchema } from './rpc';
+import { readJsonFile, type Result } from './utils';
+
+export const CONFIG_FILE_NAME = 'near-mcp.config.json';
+export const CONFIG_FILE_ENV = 'NEAR_MCP_CONFIG';
+export const KEYSTORE_ENV = 'NEAR_KEYSTORE';
+export const SERVER_TRANSPORTS = ['stdio', 'sse', 'streamable-http'] as const;
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+// the MCP logging levels, from the lowest
+export const LOG_LEVELS = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// environment variables overriding both the config file and the CLI flags
+export const CONFIG_ENV = {
+  defaultNetwork: 'NEAR_MCP_DEFAULT_NETWORK',
+  defaultGas: 'NEAR_MCP_DEFAULT_GAS',
+  tools: 'NEAR_MCP_TOOLS',
+  excludeTools: 'NEAR_MCP_EXCLUDE_TOOLS',
+  profile: 'NEAR_MCP_PROFILE',
+  readOnly: 'NEAR_MCP_READ_ONLY',
+  logLevel: 'NEAR_MCP_LOG_LEVEL',
+  transport: 'NEAR_MCP_TRANSPORT',
+  port: 'NEAR_MCP_PORT',
+  authFile: 'NEAR_MCP_AUTH_FILE',
+} as const;
+
+export const ServerConfigSchema = z.object({
+  keyDir: z
+    .string()
+    .default(path.join(homedir(), '.near-keystore'))
+    .describe('Directory of the NEAR keystore.'),
+  encrypted: z
+    .boolean()
+    .default(false)
+    .describe('Whether the keystore is passphrase-encrypted.'),
+  defaultNetwork: z
+    .string()
+    .default('mainnet')
+    .describe('The network used by tools when no network id is given.'),
+  defaultGas: z
+    .union([z.string().regex(/^\d+$/), z.number().int().positive()])
+    .transform((gas) => BigInt(gas))
+    .optional()
+    .describe('Gas attached to function calls, in gas units.'),
+  tools: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Glob patterns of the tools to expose, e.g. `account_*` or `!ref_finance_*`. All tools when omitted.',
+    ),
+  excludeTools: z
+    .array(z.string())
+    .default([])
+    .describe('Glob patterns of the tools to hide.'),
+  profile: z
+    .string()
+    .optional()
+    .describe('The tool profile further restricting the exposed tools.'),
+  profiles: z
+    .record(z.string(), z.array(z.string()))
+    .default({})
+    .describe(
+      'Tool profiles by name, as lists of glob patterns. Added to the built-in wallet, defi and dev profiles.',
+    ),
+  readOnly: z
+    .boolean()
+    .default(false)
+    .describe('Only expose the tools that do not sign or modify the keystore.'),
+  logLevel: z
+    .enum(LOG_LEVELS)
+    .default('info')
+    .describe('The lowest level of the log messages sent to the client.'),
+  transport: z
+    .object({
+      type: z.enum(SERVER_TRANSPORTS).default('stdio'),
+      port: z.number().int().min(1).max(65535).default(3001),
+      authFile: z
+        .string()
+        .optional()
+        .describe('JSON file with the API keys of the remote server.'),
+      sessionIdleTimeout: z
+        .number()
+        .int()
+        .positive()
+        .default(DEFAULT_SESSION_IDLE_TIMEOUT)
+        .describe(
+          'Streamable HTTP sessions without a request for this long are closed, in milliseconds.',
+        ),
+    })
+    .default({}),
+  rpc: RpcConfigSchema.partial()
+    .optional()
+    .describe('RPC endpoints and custom networks, see `--rpc-config`.'),
+  policy: SpendingPolicyConfigSchema.optional().describe(
+    'Spending limits enforced before a transaction is signed.',
+  ),
+  approval: ApprovalConfigSchema.optional().describe(
+    'Transactions requiring a human approval before they are signed.',
+  ),
+  audit: AuditConfigSchema.default({}).describe(
+    'The log of the tool calls that sign transactions.',
+  ),
+  addressBook: AddressBookConfigSchema.optional().describe(
+    'Named contacts that tools accept instead of account ids, and the receiver allowlist.',
+  ),
+  relayer: RelayerConfigSchema.optional().describe(
+    'The delegate actions of other accounts that the server pays the gas of.',
+  ),
+  contracts: z
+    .record(z.string(), NetworkContractsSchema)
+    .default({})
+    .describe(
+      'Contract ids by network id, overriding the built-in Ref Finance and wrapped NEAR contracts.',
+    ),
+  contractTools: z
+    .array(ContractToolsConfigSchema)
+    .default([])
+    .describe(
+      'Contracts whose ABI functions are registered as tools at startup, like with `contract_register`.',
+    ),
+});
+export type ServerConfig = z.infer<typeof ServerConfigSchema>;
+export type ServerConfigInput = z.input<typeof ServerConfigSchema>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// merge nested objects, ignoring the undefined values of the override
+const mergeConfig = (
+  base: Record<string, unknown>,
+  override: Record<string, unknown>,
+): Record<string, unknown> =>
+  Object.entries(override).reduce<Record<string, unknown>>(
+    (merged, [key, value]) => {
+      if (value === undefined) {
+        return merged;
+      }
+      const baseValue = merged[key];
+      merged[key] =
+        isPlainObject(baseValue) && isPlainObject(value)
+          ? mergeConfig(baseValue, value)
+          : value;
+      return merged;
+    },
+    { ...base },
+  );
+
+const getEnvConfig = (): Record<string, unknown> => {
+  const env = (name: string) => process.env[name] || undefined;
+  const port = env(CONFIG_ENV.port);
+  const readOnly = env(CONFIG_ENV.readOnly);
+  const toList = (value?: string) =>
+    value
+      ?.split(',')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  return {
+    keyDir: env(KEYSTORE_ENV),
+    defaultNetwork: env(CONFIG_ENV.defaultNetwork),
+    defaultGas: env(CONFIG_ENV.defaultGas),
+    tools: toList(env(CONFIG_ENV.tools)),
+    excludeTools: toList(env(CONFIG_ENV.excludeTools)),
+    profile: env(CONFIG_ENV.profile),
+    readOnly:
+      readOnly !== undefined
+        ? ['1', 'true'].includes(readOnly.toLowerCase())
+        : undefined,
+    logLevel: env(CONFIG_ENV.logLevel),
+    transport: {
+      type: env(CONFIG_ENV.transport),
+      port: port !== undefined ? Number(port) : undefined,
+      authFile: env(CONFIG_ENV.authFile),
+    },
+  };
+};
+
+/**
+ * Find the config file, either the given path or the first
+ * `near-mcp.config.json` in the working directory or `~/.config/near-mcp`.
+ */
+export const findConfigFile = (configFile?: string): string | undefined => {
+  const explicitConfigFile = process.env[CONFIG_FILE_ENV] || configFile;
+  if (explicitConfigFile) {
+    return explicitConfigFile;
+  }
+  return [
+    path.join(process.cwd(), CONFIG_FILE_NAME),
+    path.join(homedir(), '.config', 'near-mcp', CONFIG_FILE_NAME),
+  ].find((candidate) => existsSync(candidate));
+};
+
+/**
+ * Load the server config. Values of the config file are overridden by the
+ * given CLI flags, which are in turn overridden by environment variables.
+ */
+export const loadServerConfig = async (
+  configFile?: string,
+  flags: ServerConfigInput = {},
+): Promise<Result<ServerConfig, Error>> => {
+  const foundConfigFile = findConfigFile(configFile);
+  const fileConfigResult: Result<unknown, Error> = foundConfigFile
+    ? await readJsonFile(foundConfigFile)
+    : { ok: true, value: {} };
+  if (!fileConfigResult.ok) {
+    return fileConfigResult;
+  }
+  if (!isPlainObject(fileConfigResult.value)) {
+    return {
+      ok: false,
+      error: new Error(`Invalid config ${foundConfigFile}: expected an object`),
+    };
+  }
+
+  const parsedConfig = ServerConfigSchema.safeParse(
+    mergeConfig(
+      mergeConfig(fileConfigResult.value, flags as Record<string, unknown>),
+      getEnvConfig(),
+    ),
+  );
+  if (!parsedConfig.success) {
+    return {
+      ok: false,
+      error: new Error(`Invalid config: ${parsedConfig.error.message}`),
+    };
+  }
+  return { ok: true, value: parsedConfig.data };
+};
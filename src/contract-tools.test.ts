@@ -0,0 +1,169 @@
+import { describe, it } from 'node:test';
+
+import assert from 'assert/strict';
+import {
+  AbiFunctionKind,
+  AbiFunctionModifier,
+  type AbiRoot,
+  AbiSerializationType,
+} from 'near-abi';
+
+import { getContractFunctions, jsonSchemaToZod } from './contract-tools';
+
+describe('jsonSchemaToZod', () => {
+  it('converts objects with required and optional properties', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: {
+        receiver_id: { type: 'string' },
+        memo: { type: ['string', 'null'] },
+        count: { type: 'integer', minimum: 0, maximum: 255 },
+      },
+      required: ['receiver_id', 'count'],
+    });
+    assert.ok(schema.safeParse({ receiver_id: 'bob.near', count: 1 }).success);
+    assert.ok(
+      schema.safeParse({ receiver_id: 'bob.near', memo: null, count: 255 })
+        .success,
+    );
+    assert.ok(!schema.safeParse({ count: 1 }).success);
+    assert.ok(!schema.safeParse({ receiver_id: 'bob', count: 256 }).success);
+    assert.ok(!schema.safeParse({ receiver_id: 'bob', count: 1.5 }).success);
+  });
+
+  it('resolves the definitions, and stops at recursive ones', () => {
+    const definitions = {
+      Tree: {
+        type: 'object' as const,
+        properties: {
+          children: {
+            type: 'array' as const,
+            items: { $ref: '#/definitions/Tree' },
+          },
+        },
+        required: ['children'],
+      },
+      Color: { enum: ['red', 'green'] },
+    };
+    const color = jsonSchemaToZod({ $ref: '#/definitions/Color' }, definitions);
+    assert.ok(color.safeParse('red').success);
+    assert.ok(!color.safeParse('blue').success);
+    const tree = jsonSchemaToZod({ $ref: '#/definitions/Tree' }, definitions);
+    assert.ok(tree.safeParse({ children: [{ children: [] }] }).success);
+    assert.ok(!tree.safeParse({}).success);
+  });
+
+  it('converts unions, tuples and maps', () => {
+    const union = jsonSchemaToZod({
+      anyOf: [{ type: 'string' }, { type: 'null' }],
+    });
+    assert.ok(union.safeParse(null).success);
+    assert.ok(!union.safeParse(1).success);
+    const tuple = jsonSchemaToZod({
+      type: 'array',
+      items: [{ type: 'string' }, { type: 'boolean' }],
+    });
+    assert.ok(tuple.safeParse(['a', true]).success);
+    assert.ok(!tuple.safeParse([true, 'a']).success);
+    const map = jsonSchemaToZod({
+      type: 'object',
+      additionalProperties: { type: 'integer' },
+    });
+    assert.ok(map.safeParse({ a: 1, b: 2 }).success);
+    assert.ok(!map.safeParse({ a: 'one' }).success);
+  });
+});
+
+describe('getContractFunctions', () => {
+  const abi = {
+    schema_version: '0.4.0',
+    metadata: {},
+    body: {
+      functions: [
+        {
+          name: 'new',
+          kind: AbiFunctionKind.Call,
+          modifiers: [AbiFunctionModifier.Init],
+        },
+        {
+          name: 'ft_balance_of',
+          doc: ' The balance of an account. ',
+          kind: AbiFunctionKind.View,
+          params: {
+            serialization_type: AbiSerializationType.Json,
+            args: [{ name: 'account_id', type_schema: { type: 'string' } }],
+          },
+        },
+        {
+          name: 'ft_transfer',
+          kind: AbiFunctionKind.Call,
+          modifiers: [AbiFunctionModifier.Payable],
+          params: {
+            serialization_type: AbiSerializationType.Json,
+            args: [
+              { name: 'receiver_id', type_schema: { type: 'string' } },
+              {
+                name: 'memo',
+                type_schema: { type: ['string', 'null'] },
+              },
+            ],
+          },
+        },
+        {
+          name: 'set_state',
+          kind: AbiFunctionKind.Call,
+          params: {
+            serialization_type: AbiSerializationType.Borsh,
+            args: [{ name: 'state', type_schema: {} }],
+          },
+        },
+        {
+          name: 'on_transfer',
+          kind: AbiFunctionKind.Call,
+          modifiers: [AbiFunctionModifier.Private],
+        },
+        {
+          name: 'get_state',
+          kind: AbiFunctionKind.View,
+          result: {
+            serialization_type: AbiSerializationType.Borsh,
+            type_schema: {},
+          },
+        },
+      ],
+      root_schema: {},
+    },
+  } as unknown as AbiRoot;
+
+  it('leaves out init, private and borsh argument functions', () => {
+    const functions = getContractFunctions(abi);
+    assert.deepEqual(
+      functions.map(({ name }) => name),
+      ['ft_balance_of', 'ft_transfer', 'get_state'],
+    );
+    const [balanceOf, transfer, getState] = functions;
+    assert.equal(balanceOf?.kind, 'view');
+    assert.equal(balanceOf?.doc, 'The balance of an account.');
+    assert.equal(transfer?.kind, 'call');
+    assert.ok(transfer?.payable);
+    assert.equal(getState?.argsSchema, undefined);
+    assert.ok(getState?.borshResult);
+  });
+
+  it('makes the nullable arguments optional', () => {
+    const transfer = getContractFunctions(abi).find(
+      ({ name }) => name === 'ft_transfer',
+    );
+    assert.ok(transfer?.argsSchema?.safeParse({ receiver_id: 'bob' }).success);
+    assert.ok(!transfer?.argsSchema?.safeParse({}).success);
+  });
+
+  it('keeps the functions matching the method patterns', () => {
+    assert.deepEqual(
+      getContractFunctions(abi, ['ft_*', '!ft_balance_of']).map(
+        ({ name }) => name,
+      ),
+      ['ft_transfer'],
+    );
+  });
+});
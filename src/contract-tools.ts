@@ -0,0 +1,249 @@
+import {
+  AbiFunctionKind,
+  AbiFunctionModifier,
+  type AbiRoot,
+  AbiSerializationType,
+} from 'near-abi';
+import { z } from 'zod';
+
+import { matchesToolPatterns } from './tool-filter';
+
+type JsonSchema = AbiRoot['body']['root_schema'];
+type JsonSchemaDefinition = NonNullable<JsonSchema['definitions']>[string];
+type JsonSchemaTypeName = Exclude<
+  JsonSchema['type'],
+  readonly unknown[] | undefined
+>;
+
+export const ContractToolsConfigSchema = z.object({
+  contractId: z.string().describe('The account id of the contract.'),
+  networkId: z
+    .string()
+    .optional()
+    .describe('The network of the contract, the default network when omitted.'),
+  name: z
+    .string()
+    .regex(/^[a-zA-Z0-9_-]+$/)
+    .optional()
+    .describe(
+      'The prefix of the tool names, the contract id with `_` for the other characters when omitted, e.g. `wrap_near`.',
+    ),
+  methods: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Glob patterns of the functions exposed as tools, e.g. `ft_*` or `!storage_*`. Every function of the ABI when omitted.',
+    ),
+});
+export type ContractToolsConfig = z.infer<typeof ContractToolsConfigSchema>;
+
+export const getContractToolPrefix = (contractId: string) =>
+  contractId.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+export const getContractToolName = (prefix: string, functionName: string) =>
+  `${prefix}__${functionName}`;
+
+export type ContractFunction = {
+  name: string;
+  doc?: string;
+  kind: 'view' | 'call';
+  payable: boolean;
+  // the JSON arguments, none when the function takes no parameters
+  argsSchema?: z.AnyZodObject;
+  // borsh results are returned as base64
+  borshResult: boolean;
+};
+
+const isPrimitive = (value: unknown): value is z.Primitive =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+// a union accepting null is nullable, which reads better as a JSON schema
+const toUnion = (schemas: z.ZodTypeAny[]): z.ZodTypeAny => {
+  const nullable = schemas.some((schema) => schema instanceof z.ZodNull);
+  const [first, second, ...rest] = schemas.filter(
+    (schema) => !(schema instanceof z.ZodNull),
+  );
+  const union =
+    first === undefined
+      ? nullable
+        ? z.null()
+        : z.any()
+      : second === undefined
+        ? first
+        : z.union([first, second, ...rest]);
+  return nullable && first !== undefined ? union.nullable() : union;
+};
+
+const toNumber = (schema: JsonSchema, number: z.ZodNumber) => {
+  const minimum =
+    schema.minimum !== undefined ? number.min(schema.minimum) : number;
+  return schema.maximum !== undefined ? minimum.max(schema.maximum) : minimum;
+};
+
+const toZod = (
+  schema: JsonSchemaDefinition,
+  definitions: Record<string, JsonSchemaDefinition>,
+  // the definitions being converted, to stop at recursive types
+  refs: string[],
+): z.ZodTypeAny => {
+  if (typeof schema === 'boolean') {
+    return schema ? z.any() : z.never();
+  }
+  const nested = (nestedSchema: JsonSchemaDefinition) =>
+    toZod(nestedSchema, definitions, refs);
+
+  const zodType = ((): z.ZodTypeAny => {
+    if (schema.$ref !== undefined) {
+      const definition =
+        definitions[schema.$ref.replace(/^#\/definitions\//, '')];
+      // a type nested in itself accepts any value
+      return definition !== undefined && !refs.includes(schema.$ref)
+        ? toZod(definition, definitions, [...refs, schema.$ref])
+        : z.any();
+    }
+    if (schema.const !== undefined) {
+      return isPrimitive(schema.const) ? z.literal(schema.const) : z.any();
+    }
+    if (schema.enum !== undefined) {
+      return toUnion(
+        schema.enum.map((value) =>
+          value === null
+            ? z.null()
+            : isPrimitive(value)
+              ? z.literal(value)
+              : z.any(),
+        ),
+      );
+    }
+    const variants = schema.anyOf ?? schema.oneOf;
+    if (variants !== undefined) {
+      return toUnion(variants.map(nested));
+    }
+    if (schema.allOf !== undefined && schema.allOf.length > 0) {
+      return schema.allOf
+        .map(nested)
+        .reduce((intersection, part) => z.intersection(intersection, part));
+    }
+    const types: JsonSchemaTypeName[] = Array.isArray(schema.type)
+      ? schema.type
+      : schema.type !== undefined
+        ? [schema.type as JsonSchemaTypeName]
+        : schema.properties !== undefined
+          ? ['object']
+          : [];
+    return toUnion(
+      types.map((type): z.ZodTypeAny => {
+        switch (type) {
+          case 'string':
+            return z.string();
+          case 'integer':
+            return toNumber(schema, z.number().int());
+          case 'number':
+            return toNumber(schema, z.number());
+          case 'boolean':
+            return z.boolean();
+          case 'null':
+            return z.null();
+          case 'array': {
+            if (Array.isArray(schema.items)) {
+              const [first, ...rest] = schema.items.map(nested);
+              return first !== undefined
+                ? z.tuple([first, ...rest])
+                : z.tuple([]);
+            }
+            return z.array(
+              schema.items !== undefined ? nested(schema.items) : z.any(),
+            );
+          }
+          case 'object': {
+            const additional =
+              typeof schema.additionalProperties === 'object'
+                ? nested(schema.additionalProperties)
+                : undefined;
+            if (schema.properties === undefined) {
+              return z.record(z.string(), additional ?? z.any());
+            }
+            const object = z.object(
+              Object.fromEntries(
+                Object.entries(schema.properties).map(([name, property]) => {
+                  const propertyType = nested(property);
+                  return [
+                    name,
+                    schema.required?.includes(name)
+                      ? propertyType
+                      : propertyType.optional(),
+                  ];
+                }),
+              ),
+            );
+            return additional ? object.catchall(additional) : object;
+          }
+        }
+      }),
+    );
+  })();
+  return schema.description !== undefined
+    ? zodType.describe(schema.description)
+    : zodType;
+};
+
+/**
+ * Convert a JSON schema of a contract ABI to zod. The definitions of the
+ * root schema of the ABI resolve the `$ref` of the schema.
+ */
+export const jsonSchemaToZod = (
+  schema: JsonSchemaDefinition,
+  definitions: Record<string, JsonSchemaDefinition> = {},
+) => toZod(schema, definitions, []);
+
+/**
+ * The functions of a contract ABI that can be called as tools. Init and
+ * private functions are left out, and so are the functions taking borsh
+ * arguments, which have no JSON schema.
+ */
+export const getContractFunctions = (
+  abi: AbiRoot,
+  methods?: string[],
+): ContractFunction[] => {
+  const definitions = abi.body.root_schema.definitions ?? {};
+  return abi.body.functions
+    .filter(
+      (fn) =>
+        !fn.modifiers?.includes(AbiFunctionModifier.Init) &&
+        !fn.modifiers?.includes(AbiFunctionModifier.Private) &&
+        fn.params?.serialization_type !== AbiSerializationType.Borsh &&
+        (methods === undefined || matchesToolPatterns(fn.name, methods)),
+    )
+    .map((fn) => {
+      const args = fn.params?.args ?? [];
+      return {
+        name: fn.name,
+        doc: fn.doc?.trim() || undefined,
+        kind: fn.kind === AbiFunctionKind.View ? 'view' : 'call',
+        payable: fn.modifiers?.includes(AbiFunctionModifier.Payable) ?? false,
+        argsSchema:
+          args.length > 0
+            ? z.object(
+                Object.fromEntries(
+                  args.map(({ name, type_schema }) => {
+                    // the functions taking borsh arguments are left out
+                    const argType = jsonSchemaToZod(
+                      type_schema as JsonSchemaDefinition,
+                      definitions,
+                    );
+                    // near-sdk reads a missing argument as a null option
+                    return [
+                      name,
+                      argType.safeParse(null).success
+                        ? argType.optional()
+                        : argType,
+                    ];
+                  }),
+                ),
+              )
+            : undefined,
+        borshResult:
+          fn.result?.serialization_type === AbiSerializationType.Borsh,
+      };
+    });
+};
@@ -0,0 +1,303 @@
+import { type AccessKeyView } from '@near-js/types';
+import base58 from 'bs58';
+import { createHash } from 'crypto';
+import { type Near, transactions } from 'near-api-js';
+import { z } from 'zod';
+
+import { formatTokenAmount, NEAR_DECIMALS } from './policy';
+import { type Result } from './utils';
+
+const TGAS_DECIMALS = 12;
+
+export type DryRunAction =
+  | { type: 'Transfer'; deposit: bigint }
+  | {
+      type: 'FunctionCall';
+      methodName: string;
+      // bytes for arguments that are not JSON
+      args: Record<string, unknown> | Uint8Array;
+      gas: bigint;
+      deposit: bigint;
+    };
+
+export type DryRunTransaction = {
+  signerAccountId: string;
+  receiverAccountId: string;
+  actions: DryRunAction[];
+  // fungible tokens sent by the transaction, checked against the balance
+  tokenTransfer?: {
+    contractId: string;
+    amount: bigint;
+    decimals: number;
+    symbol: string;
+  };
+};
+
+type DryRunCheck = { ok: boolean; message: string };
+
+export type DryRunReport = {
+  // false when any of the checks failed
+  ok: boolean;
+  signerAccountId: string;
+  receiverAccountId: string;
+  publicKey: string;
+  nonce: bigint;
+  actions: Record<string, unknown>[];
+  gas: {
+    // gas of the transaction and its receipts, excluding contract execution
+    base: string;
+    attached: string;
+    total: string;
+  };
+  // the most the transaction can cost, unused attached gas is refunded
+  maxFee: string;
+  checks: {
+    accessKey: DryRunCheck;
+    balance: DryRunCheck;
+    tokenBalance?: DryRunCheck;
+  };
+  // never signed, so that a dry run cannot be broadcast without the
+  // approval and the spending limits of a real send
+  unsignedTransaction: {
+    hash: string;
+    base64: string;
+  };
+};
+
+const FeeSchema = z.object({
+  send_sir: z.number(),
+  send_not_sir: z.number(),
+  execution: z.number(),
+});
+type Fee = z.infer<typeof FeeSchema>;
+
+const TransactionCostsSchema = z.object({
+  runtime_config: z.object({
+    transaction_costs: z.object({
+      action_receipt_creation_config: FeeSchema,
+      action_creation_config: z.object({
+        transfer_cost: FeeSchema,
+        function_call_cost: FeeSchema,
+        function_call_cost_per_byte: FeeSchema,
+      }),
+    }),
+  }),
+});
+
+const formatNear = (yoctoNear: bigint) =>
+  `${formatTokenAmount(yoctoNear, NEAR_DECIMALS)} NEAR`;
+const formatGas = (gas: bigint) =>
+  `${formatTokenAmount(gas, TGAS_DECIMALS)} TGas`;
+
+const checkAccessKey = (
+  accessKey: AccessKeyView | null,
+  transaction: DryRunTransaction,
+  maxFee: bigint,
+): DryRunCheck => {
+  if (!accessKey) {
+    return {
+      ok: false,
+      message: `The key of the keystore is not an access key of ${transaction.signerAccountId}`,
+    };
+  }
+  if (accessKey.permission === 'FullAccess') {
+    return { ok: true, message: 'Full access key' };
+  }
+  const {
+    allowance,
+    receiver_id: receiverId,
+    method_names: methodNames,
+  } = accessKey.permission.FunctionCall;
+  for (const action of transaction.actions) {
+    if (action.type !== 'FunctionCall') {
+      return {
+        ok: false,
+        message: `Function call access keys cannot sign ${action.type} actions`,
+      };
+    }
+    if (action.deposit > 0n) {
+      return {
+        ok: false,
+        message: 'Function call access keys cannot attach a deposit',
+      };
+    }
+    if (methodNames.length > 0 && !methodNames.includes(action.methodName)) {
+      return {
+        ok: false,
+        message: `The function call access key does not allow calling ${action.methodName}`,
+      };
+    }
+  }
+  if (receiverId !== transaction.receiverAccountId) {
+    return {
+      ok: false,
+      message: `The function call access key only allows calls to ${receiverId}`,
+    };
+  }
+  // keys without an allowance are unlimited
+  if (allowance && BigInt(allowance) < maxFee) {
+    return {
+      ok: false,
+      message: `The allowance of ${formatNear(BigInt(allowance))} of the function call access key may not cover the fee`,
+    };
+  }
+  return { ok: true, message: `Function call access key for ${receiverId}` };
+};
+
+/**
+ * Build a transaction without signing nor broadcasting it, and check that
+ * it could be sent: the access key permissions and the balance of the
+ * signer.
+ */
+export const dryRunTransaction = async (
+  connection: Near,
+  transaction: DryRunTransaction,
+): Promise<Result<DryRunReport, Error>> => {
+  try {
+    const provider = connection.connection.provider;
+    const account = await connection.account(transaction.signerAccountId);
+    const actions = transaction.actions.map((action) =>
+      action.type === 'Transfer'
+        ? transactions.transfer(action.deposit)
+        : transactions.functionCall(
+            action.methodName,
+            action.args,
+            action.gas,
+            action.deposit,
+          ),
+    );
+    const { publicKey, accessKey } = await account.findAccessKey(
+      transaction.receiverAccountId,
+      actions,
+    );
+
+    // receipts to the signer itself are cheaper
+    const sendFee = (fee: Fee) =>
+      BigInt(
+        transaction.signerAccountId === transaction.receiverAccountId
+          ? fee.send_sir
+          : fee.send_not_sir,
+      ) + BigInt(fee.execution);
+    const costs = TransactionCostsSchema.parse(
+      await provider.experimental_protocolConfig({ finality: 'final' }),
+    ).runtime_config.transaction_costs;
+    const actionCosts = costs.action_creation_config;
+    const baseGas = transaction.actions.reduce(
+      (gas, action) =>
+        gas +
+        (action.type === 'Transfer'
+          ? sendFee(actionCosts.transfer_cost)
+          : sendFee(actionCosts.function_call_cost) +
+            sendFee(actionCosts.function_call_cost_per_byte) *
+              BigInt(
+                action.methodName.length +
+                  transactions.stringifyJsonOrBytes(action.args).length,
+              )),
+      sendFee(costs.action_receipt_creation_config),
+    );
+    const attachedGas = transaction.actions.reduce(
+      (gas, action) => gas + (action.type === 'FunctionCall' ? action.gas : 0n),
+      0n,
+    );
+    const block = await provider.block({ finality: 'final' });
+    const { gas_price: gasPrice } = await provider.gasPrice(block.header.hash);
+    const maxFee = (baseGas + attachedGas) * BigInt(gasPrice);
+
+    const deposit = transaction.actions.reduce(
+      (total, action) => total + action.deposit,
+      0n,
+    );
+    const available = BigInt((await account.getAccountBalance()).available);
+    const balance: DryRunCheck =
+      available >= deposit + maxFee
+        ? { ok: true, message: `${formatNear(available)} available` }
+        : {
+            ok: false,
+            message: `${formatNear(available)} available but up to ${formatNear(deposit + maxFee)} is needed for the deposits and the fee`,
+          };
+
+    const { tokenTransfer } = transaction;
+    const tokenBalance: DryRunCheck | undefined = await (async () => {
+      if (!tokenTransfer) {
+        return undefined;
+      }
+      const tokenAvailable = BigInt(
+        (await account.viewFunction({
+          contractId: tokenTransfer.contractId,
+          methodName: 'ft_balance_of',
+          args: { account_id: transaction.signerAccountId },
+        })) as string,
+      );
+      const format = (amount: bigint) =>
+        `${formatTokenAmount(amount, tokenTransfer.decimals)} ${tokenTransfer.symbol}`;
+      return tokenAvailable >= tokenTransfer.amount
+        ? { ok: true, message: `${format(tokenAvailable)} available` }
+        : {
+            ok: false,
+            message: `${format(tokenAvailable)} available but ${format(tokenTransfer.amount)} is sent`,
+          };
+    })();
+    const accessKeyCheck = checkAccessKey(accessKey, transaction, maxFee);
+
+    // the nonce the next transaction of the key would use, it is not
+    // reserved since nothing is signed
+    const nonce = (accessKey?.nonce ?? 0n) + 1n;
+    const unsignedTransaction = transactions
+      .createTransaction(
+        transaction.signerAccountId,
+        publicKey,
+        transaction.receiverAccountId,
+        nonce,
+        actions,
+        base58.decode(block.header.hash),
+      )
+      .encode();
+
+    return {
+      ok: true,
+      value: {
+        ok: accessKeyCheck.ok && balance.ok && (tokenBalance?.ok ?? true),
+        signerAccountId: transaction.signerAccountId,
+        receiverAccountId: transaction.receiverAccountId,
+        publicKey: publicKey.toString(),
+        nonce,
+        actions: transaction.actions.map((action) =>
+          action.type === 'Transfer'
+            ? { type: action.type, deposit: formatNear(action.deposit) }
+            : {
+                type: action.type,
+                methodName: action.methodName,
+                args:
+                  action.args instanceof Uint8Array
+                    ? Buffer.from(action.args).toString('base64')
+                    : action.args,
+                gas: formatGas(action.gas),
+                deposit: formatNear(action.deposit),
+              },
+        ),
+        gas: {
+          base: formatGas(baseGas),
+          attached: formatGas(attachedGas),
+          total: formatGas(baseGas + attachedGas),
+        },
+        maxFee: formatNear(maxFee),
+        checks: {
+          accessKey: accessKeyCheck,
+          balance,
+          ...(tokenBalance && { tokenBalance }),
+        },
+        unsignedTransaction: {
+          hash: base58.encode(
+            createHash('sha256').update(unsignedTransaction).digest(),
+          ),
+          base64: Buffer.from(unsignedTransaction).toString('base64'),
+        },
+      },
+    };
+  } catch (e) {
+    return {
+      ok: false,
+      error: new Error(`Failed to dry run the transaction: ${String(e)}`),
+    };
+  }
+};
@@ -0,0 +1,66 @@
+import {
+  type EventId,
+  type EventStore,
+  type StreamId,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'crypto';
+
+export const DEFAULT_MAX_EVENTS_PER_STREAM = 1024;
+
+/**
+ * In-memory event store used by the Streamable HTTP transport to let clients
+ * resume a stream after a dropped connection (via the `Last-Event-ID` header).
+ * Only the most recent `maxEventsPerStream` events of each stream are kept.
+ */
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<StreamId, Map<EventId, JSONRPCMessage>>();
+  private eventStreams = new Map<EventId, StreamId>();
+
+  constructor(
+    private maxEventsPerStream: number = DEFAULT_MAX_EVENTS_PER_STREAM,
+  ) {}
+
+  async storeEvent(
+    streamId: StreamId,
+    message: JSONRPCMessage,
+  ): Promise<EventId> {
+    const eventId = randomUUID();
+    const events =
+      this.streams.get(streamId) ?? new Map<EventId, JSONRPCMessage>();
+    events.set(eventId, message);
+    this.streams.set(streamId, events);
+    this.eventStreams.set(eventId, streamId);
+
+    // drop the oldest events once the stream grows past its limit
+    for (const oldEventId of events.keys()) {
+      if (events.size <= this.maxEventsPerStream) break;
+      events.delete(oldEventId);
+      this.eventStreams.delete(oldEventId);
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    {
+      send,
+    }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const streamId = this.eventStreams.get(lastEventId);
+    const events = streamId ? this.streams.get(streamId) : undefined;
+    if (!streamId || !events) {
+      return '';
+    }
+
+    let foundLastEvent = false;
+    for (const [eventId, message] of events) {
+      if (foundLastEvent) {
+        await send(eventId, message);
+      } else if (eventId === lastEventId) {
+        foundLastEvent = true;
+      }
+    }
+    return streamId;
+  }
+}
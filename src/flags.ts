@@ -0,0 +1,35 @@
+import { Flags } from '@oclif/core';
+
+import { CONFIG_FILE_ENV, CONFIG_FILE_NAME } from './config';
+import { DEFAULT_TOOL_PROFILES } from './tool-filter';
+
+// flags selecting the exposed tools, shared by the commands creating a server
+export const toolFilterFlags = {
+  config: Flags.string({
+    description: `Config file with the server defaults. Defaults to the first ${CONFIG_FILE_NAME} found in the working directory or ~/.config/near-mcp, and can also be set with ${CONFIG_FILE_ENV}`,
+    helpValue: '<path>',
+  }),
+  tools: Flags.string({
+    description:
+      'Glob patterns of the tools to expose, e.g. account_* or !ref_finance_*. Can be repeated or comma separated',
+    multiple: true,
+    delimiter: ',',
+    helpValue: '<pattern>',
+  }),
+  'exclude-tools': Flags.string({
+    description:
+      'Glob patterns of the tools to hide. Can be repeated or comma separated',
+    multiple: true,
+    delimiter: ',',
+    helpValue: '<pattern>',
+  }),
+  profile: Flags.string({
+    description: `Tool profile restricting the exposed tools, one of ${Object.keys(DEFAULT_TOOL_PROFILES).join(', ')} or a profile defined in the config file`,
+    helpValue: '<profile>',
+  }),
+  'read-only': Flags.boolean({
+    description:
+      'Only expose the tools that view or query the blockchain, hiding every tool that signs, broadcasts or modifies the keystore',
+    default: false,
+  }),
+};
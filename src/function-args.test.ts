@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+
+import assert from 'assert/strict';
+
+import { encodeFunctionArgs, getJsonArgs } from './function-args';
+
+describe('encodeFunctionArgs', () => {
+  it('keeps JSON arguments as an object', () => {
+    const result = encodeFunctionArgs({ account_id: 'bob.near' }, 'json');
+    assert.ok(result.ok);
+    assert.deepEqual(result.value, { account_id: 'bob.near' });
+    assert.ok(!encodeFunctionArgs(['bob.near'], 'json').ok);
+    assert.ok(!encodeFunctionArgs('bob.near', 'json').ok);
+  });
+
+  it('decodes base64 arguments to their bytes', () => {
+    const result = encodeFunctionArgs(
+      Buffer.from([0, 1, 255]).toString('base64'),
+      'base64',
+    );
+    assert.ok(result.ok);
+    assert.deepEqual(result.value, Buffer.from([0, 1, 255]));
+    assert.ok(!encodeFunctionArgs('not base64!', 'base64').ok);
+    assert.ok(!encodeFunctionArgs({ a: 1 }, 'base64').ok);
+  });
+
+  it('serializes borsh arguments with their schema', () => {
+    const result = encodeFunctionArgs(
+      { account_id: 'bob', amount: '1000' },
+      'borsh',
+      { struct: { account_id: 'string', amount: 'u128' } },
+    );
+    assert.ok(result.ok);
+    const expected = Buffer.alloc(4 + 3 + 16);
+    expected.writeUInt32LE(3, 0);
+    expected.write('bob', 4);
+    expected.writeUInt16LE(1000, 7);
+    assert.deepEqual(result.value, expected);
+  });
+
+  it('requires a valid borsh schema and value', () => {
+    assert.ok(!encodeFunctionArgs({ amount: '1' }, 'borsh').ok);
+    const result = encodeFunctionArgs({ amount: 'many' }, 'borsh', {
+      struct: { amount: 'u128' },
+    });
+    assert.ok(!result.ok);
+    assert.match(result.error.message, /^Failed to encode the arguments/);
+  });
+});
+
+describe('getJsonArgs', () => {
+  it('reads the JSON of encoded arguments', () => {
+    assert.deepEqual(getJsonArgs({ amount: '1' }), { amount: '1' });
+    assert.deepEqual(
+      getJsonArgs(Buffer.from(JSON.stringify({ receiver_id: 'bob.near' }))),
+      { receiver_id: 'bob.near' },
+    );
+    assert.deepEqual(getJsonArgs(Buffer.from([0, 1, 2])), {});
+    assert.deepEqual(getJsonArgs(Buffer.from('[1, 2]')), {});
+  });
+});
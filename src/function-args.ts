@@ -0,0 +1,90 @@
+import { type Schema, serialize } from 'borsh';
+import { z } from 'zod';
+
+import { type BorshSchemaSchema } from './state';
+import { type Result } from './utils';
+
+export const ARGS_ENCODINGS = ['json', 'base64', 'borsh'] as const;
+export type ArgsEncoding = (typeof ARGS_ENCODINGS)[number];
+
+export const FunctionArgsSchema = z
+  .union([
+    z.record(z.string(), z.any()),
+    z.array(z.any()),
+    z.string(),
+    z.number(),
+    z.boolean(),
+  ])
+  .describe(
+    'The arguments to pass to the method: a JSON object, the base64 of the raw bytes with `argsEncoding: "base64"`, or the value serialized with `argsBorshSchema` with `argsEncoding: "borsh"`, giving 64 and 128-bit integers as strings.',
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Encode the arguments of a function call. JSON arguments are kept as an
+ * object for near-api-js to serialize, the others are encoded to the bytes
+ * the contract receives.
+ */
+export const encodeFunctionArgs = (
+  args: unknown,
+  encoding: ArgsEncoding,
+  borshSchema?: z.infer<typeof BorshSchemaSchema>,
+): Result<Record<string, unknown> | Uint8Array, Error> => {
+  switch (encoding) {
+    case 'json':
+      if (!isRecord(args)) {
+        return {
+          ok: false,
+          error: new Error('JSON arguments must be an object'),
+        };
+      }
+      return { ok: true, value: args };
+    case 'base64':
+      if (typeof args !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(args)) {
+        return {
+          ok: false,
+          error: new Error('base64 arguments must be a base64 string'),
+        };
+      }
+      return { ok: true, value: Buffer.from(args, 'base64') };
+    case 'borsh':
+      if (borshSchema === undefined) {
+        return {
+          ok: false,
+          error: new Error('A borsh schema is required to encode borsh'),
+        };
+      }
+      try {
+        return {
+          ok: true,
+          // near-api-js encodes view call arguments with Buffer.toString
+          value: Buffer.from(serialize(borshSchema as Schema, args)),
+        };
+      } catch (e) {
+        return {
+          ok: false,
+          error: new Error(
+            `Failed to encode the arguments as borsh: ${e instanceof Error ? e.message : String(e)}`,
+          ),
+        };
+      }
+  }
+};
+
+// encoded arguments that are still JSON, e.g. the base64 of an ft_transfer,
+// are checked like JSON arguments
+export const getJsonArgs = (
+  args: Record<string, unknown> | Uint8Array,
+): Record<string, unknown> => {
+  if (!(args instanceof Uint8Array)) {
+    return args;
+  }
+  try {
+    const value: unknown = JSON.parse(Buffer.from(args).toString('utf-8'));
+    return isRecord(value) ? value : {};
+  } catch {
+    return {};
+  }
+};
@@ -1,2 +1,22 @@
+export * from './actions';
+export * from './address-book';
+export * from './approval';
+export * from './audit';
+export * from './auth';
+export * from './config';
+export * from './contract-tools';
+export * from './dry-run';
+export * from './event-store';
+export * from './function-args';
+export * from './keystore';
+export * from './network';
+export * from './outcome';
+export * from './policy';
+export * from './relayer';
+export * from './rpc';
 export * from './services';
+export * from './signing-queue';
+export * from './state';
+export * from './tool-filter';
 export * from './utils';
+export * from './wasm';
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { KeyPair } from '@near-js/crypto';
+import { UnencryptedFileSystemKeyStore } from '@near-js/keystores-node';
+import assert from 'assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import {
+  EncryptedFileSystemKeyStore,
+  migrateToEncryptedKeystore,
+  openKeystore,
+} from './keystore';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('EncryptedFileSystemKeyStore', () => {
+  let keyDir: string;
+  beforeEach(async () => {
+    keyDir = await mkdtemp(path.join(tmpdir(), 'near-mcp-keystore-'));
+  });
+  afterEach(async () => {
+    await rm(keyDir, { recursive: true, force: true });
+  });
+
+  it('stores keys encrypted and reads them back', async () => {
+    const keyPair = KeyPair.fromRandom('ed25519');
+    const openResult = await EncryptedFileSystemKeyStore.open(
+      keyDir,
+      PASSPHRASE,
+    );
+    assert.ok(openResult.ok);
+    await openResult.value.setKey('testnet', 'alice.testnet', keyPair);
+
+    const keyFile = await readFile(
+      path.join(keyDir, 'testnet', 'alice.testnet.json'),
+      'utf-8',
+    );
+    assert.ok(!keyFile.includes(keyPair.toString()));
+
+    const reopenResult = await EncryptedFileSystemKeyStore.open(
+      keyDir,
+      PASSPHRASE,
+    );
+    assert.ok(reopenResult.ok);
+    const storedKeyPair = await reopenResult.value.getKey(
+      'testnet',
+      'alice.testnet',
+    );
+    assert.equal(storedKeyPair.toString(), keyPair.toString());
+    assert.deepEqual(await reopenResult.value.getAccounts('testnet'), [
+      'alice.testnet',
+    ]);
+  });
+
+  it('resolves to null for unknown accounts', async () => {
+    const openResult = await EncryptedFileSystemKeyStore.open(
+      keyDir,
+      PASSPHRASE,
+    );
+    assert.ok(openResult.ok);
+    assert.equal(await openResult.value.getKey('testnet', 'bob.testnet'), null);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    assert.ok((await EncryptedFileSystemKeyStore.open(keyDir, PASSPHRASE)).ok);
+    const result = await EncryptedFileSystemKeyStore.open(keyDir, 'wrong');
+    assert.ok(!result.ok);
+    assert.match(result.error.message, /Wrong passphrase/);
+  });
+
+  it('refuses a directory of plaintext keys', async () => {
+    await new UnencryptedFileSystemKeyStore(keyDir).setKey(
+      'testnet',
+      'alice.testnet',
+      KeyPair.fromRandom('ed25519'),
+    );
+    const result = await EncryptedFileSystemKeyStore.open(keyDir, PASSPHRASE);
+    assert.ok(!result.ok);
+    assert.match(result.error.message, /keystore migrate/);
+  });
+
+  it('requires the passphrase of an encrypted keystore', async () => {
+    assert.ok((await EncryptedFileSystemKeyStore.open(keyDir, PASSPHRASE)).ok);
+    const result = await openKeystore(keyDir);
+    assert.ok(!result.ok);
+    assert.match(result.error.message, /passphrase is required/);
+  });
+});
+
+describe('migrateToEncryptedKeystore', () => {
+  let sourceDir: string;
+  let destinationDir: string;
+  beforeEach(async () => {
+    sourceDir = await mkdtemp(path.join(tmpdir(), 'near-mcp-plaintext-'));
+    destinationDir = await mkdtemp(path.join(tmpdir(), 'near-mcp-encrypted-'));
+  });
+  afterEach(async () => {
+    await rm(sourceDir, { recursive: true, force: true });
+    await rm(destinationDir, { recursive: true, force: true });
+  });
+
+  it('copies every key of every network', async () => {
+    const source = new UnencryptedFileSystemKeyStore(sourceDir);
+    const keyPairs = {
+      'testnet/alice.testnet': KeyPair.fromRandom('ed25519'),
+      'mainnet/alice.near': KeyPair.fromRandom('ed25519'),
+    };
+    for (const [entry, keyPair] of Object.entries(keyPairs)) {
+      const [networkId, accountId] = entry.split('/');
+      await source.setKey(networkId!, accountId!, keyPair);
+    }
+    const destinationResult = await EncryptedFileSystemKeyStore.open(
+      destinationDir,
+      PASSPHRASE,
+    );
+    assert.ok(destinationResult.ok);
+
+    const result = await migrateToEncryptedKeystore(
+      source,
+      destinationResult.value,
+    );
+    assert.ok(result.ok);
+    assert.deepEqual(result.value.sort(), Object.keys(keyPairs).sort());
+    for (const [entry, keyPair] of Object.entries(keyPairs)) {
+      const [networkId, accountId] = entry.split('/');
+      const storedKeyPair = await destinationResult.value.getKey(
+        networkId!,
+        accountId!,
+      );
+      assert.equal(storedKeyPair.toString(), keyPair.toString());
+    }
+  });
+});
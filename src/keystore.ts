@@ -0,0 +1,428 @@
+import { KeyPair, type KeyPairString } from '@near-js/crypto';
+import { KeyStore } from '@near-js/keystores';
+import { UnencryptedFileSystemKeyStore } from '@near-js/keystores-node';
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+  type ScryptOptions,
+} from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+
+import { type Result } from './utils';
+
+export const KEYSTORE_PASSPHRASE_ENV = 'NEAR_KEYSTORE_PASSPHRASE';
+export const ENCRYPTED_KEYSTORE_METADATA_FILE = 'keystore-encryption.json';
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+// scrypt parameters recommended for interactive logins, using 32MB of memory
+const DEFAULT_SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+// constant encrypted into the metadata file to check the passphrase on unlock
+const PASSPHRASE_CHECK = 'near-mcp-keystore';
+
+const EncryptedDataSchema = z.object({
+  iv: z.string(),
+  tag: z.string(),
+  ciphertext: z.string(),
+});
+type EncryptedData = z.infer<typeof EncryptedDataSchema>;
+
+const KeystoreMetadataSchema = z.object({
+  version: z.literal(1),
+  kdf: z.object({
+    name: z.literal('scrypt'),
+    salt: z.string(),
+    N: z.number().int(),
+    r: z.number().int(),
+    p: z.number().int(),
+  }),
+  cipher: z.literal(CIPHER),
+  check: EncryptedDataSchema,
+});
+type KeystoreMetadata = z.infer<typeof KeystoreMetadataSchema>;
+
+const EncryptedKeyFileSchema = EncryptedDataSchema.extend({
+  account_id: z.string(),
+  public_key: z.string(),
+});
+
+const deriveKey = (
+  passphrase: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number },
+) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const options: ScryptOptions = {
+      ...params,
+      maxmem: 256 * params.N * params.r,
+    };
+    scrypt(passphrase, salt, KEY_LENGTH, options, (err, key) =>
+      err ? reject(err) : resolve(key),
+    );
+  });
+
+const encrypt = (key: Buffer, plaintext: string, aad: string) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+};
+
+const decrypt = (key: Buffer, data: EncryptedData, aad: string) => {
+  const decipher = createDecipheriv(
+    CIPHER,
+    key,
+    Buffer.from(data.iv, 'base64'),
+  );
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(Buffer.from(data.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(data.ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+};
+
+export const isEncryptedKeystore = (keyDir: string) =>
+  existsSync(path.join(keyDir, ENCRYPTED_KEYSTORE_METADATA_FILE));
+
+// whether `keyDir` holds `<networkId>/<accountId>.json` keys in plaintext
+const hasPlaintextKeys = async (keyDir: string) => {
+  if (!existsSync(keyDir) || isEncryptedKeystore(keyDir)) {
+    return false;
+  }
+  const entries = await readdir(keyDir, { withFileTypes: true });
+  for (const entry of entries.filter((entry) => entry.isDirectory())) {
+    const files = await readdir(path.join(keyDir, entry.name));
+    if (files.some((file) => file.endsWith('.json'))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * A keystore with the same layout as `UnencryptedFileSystemKeyStore`, where
+ * private keys are encrypted with AES-256-GCM. The encryption key is derived
+ * from a passphrase with scrypt, once when the keystore is opened.
+ */
+export class EncryptedFileSystemKeyStore extends KeyStore {
+  private constructor(
+    readonly keyDir: string,
+    private encryptionKey: Buffer,
+  ) {
+    super();
+  }
+
+  /**
+   * Open the encrypted keystore in `keyDir`, creating it when the directory
+   * does not hold a keystore yet. A directory of plaintext keys is refused,
+   * it must be migrated with `keystore migrate`.
+   */
+  static async open(
+    keyDir: string,
+    passphrase: string,
+  ): Promise<Result<EncryptedFileSystemKeyStore, Error>> {
+    const resolvedKeyDir = path.resolve(keyDir);
+    const metadataPath = path.join(
+      resolvedKeyDir,
+      ENCRYPTED_KEYSTORE_METADATA_FILE,
+    );
+    try {
+      if (!existsSync(metadataPath)) {
+        if (!passphrase) {
+          return { ok: false, error: new Error('Passphrase cannot be empty') };
+        }
+        if (await hasPlaintextKeys(resolvedKeyDir)) {
+          return {
+            ok: false,
+            error: new Error(
+              `Keystore ${resolvedKeyDir} holds plaintext keys, migrate them to an encrypted keystore with \`near-mcp keystore migrate --from ${resolvedKeyDir} --to <directory>\``,
+            ),
+          };
+        }
+        const salt = randomBytes(16);
+        const encryptionKey = await deriveKey(
+          passphrase,
+          salt,
+          DEFAULT_SCRYPT_PARAMS,
+        );
+        const metadata: KeystoreMetadata = {
+          version: 1,
+          kdf: {
+            name: 'scrypt',
+            salt: salt.toString('base64'),
+            ...DEFAULT_SCRYPT_PARAMS,
+          },
+          cipher: CIPHER,
+          check: encrypt(encryptionKey, PASSPHRASE_CHECK, PASSPHRASE_CHECK),
+        };
+        await mkdir(resolvedKeyDir, { recursive: true });
+        await writeFile(metadataPath, JSON.stringify(metadata, null, 2), {
+          mode: 0o600,
+        });
+        return {
+          ok: true,
+          value: new EncryptedFileSystemKeyStore(resolvedKeyDir, encryptionKey),
+        };
+      }
+
+      const metadata = KeystoreMetadataSchema.parse(
+        JSON.parse(await readFile(metadataPath, 'utf-8')),
+      );
+      const encryptionKey = await deriveKey(
+        passphrase,
+        Buffer.from(metadata.kdf.salt, 'base64'),
+        metadata.kdf,
+      );
+      try {
+        decrypt(encryptionKey, metadata.check, PASSPHRASE_CHECK);
+      } catch (_) {
+        return {
+          ok: false,
+          error: new Error(`Wrong passphrase for keystore ${resolvedKeyDir}`),
+        };
+      }
+      return {
+        ok: true,
+        value: new EncryptedFileSystemKeyStore(resolvedKeyDir, encryptionKey),
+      };
+    } catch (e) {
+      return {
+        ok: false,
+        error: new Error(
+          `Failed to open encrypted keystore ${resolvedKeyDir}: ${String(e)}`,
+        ),
+      };
+    }
+  }
+
+  private getKeyFilePath(networkId: string, accountId: string) {
+    return path.join(this.keyDir, networkId, `${accountId}.json`);
+  }
+
+  async setKey(
+    networkId: string,
+    accountId: string,
+    keyPair: KeyPair,
+  ): Promise<void> {
+    await mkdir(path.join(this.keyDir, networkId), { recursive: true });
+    const content = {
+      account_id: accountId,
+      public_key: keyPair.getPublicKey().toString(),
+      ...encrypt(
+        this.encryptionKey,
+        keyPair.toString(),
+        `${networkId}:${accountId}`,
+      ),
+    };
+    await writeFile(
+      this.getKeyFilePath(networkId, accountId),
+      JSON.stringify(content),
+      { mode: 0o600 },
+    );
+  }
+
+  // like UnencryptedFileSystemKeyStore, resolves to null for unknown
+  // accounts behind the signature of KeyStore
+  getKey(networkId: string, accountId: string): Promise<KeyPair>;
+  async getKey(networkId: string, accountId: string): Promise<KeyPair | null> {
+    const keyFilePath = this.getKeyFilePath(networkId, accountId);
+    if (!existsSync(keyFilePath)) {
+      return null;
+    }
+    const keyFile = EncryptedKeyFileSchema.parse(
+      JSON.parse(await readFile(keyFilePath, 'utf-8')),
+    );
+    const privateKey = decrypt(
+      this.encryptionKey,
+      keyFile,
+      `${networkId}:${accountId}`,
+    );
+    return KeyPair.fromString(privateKey as KeyPairString);
+  }
+
+  async removeKey(networkId: string, accountId: string): Promise<void> {
+    const keyFilePath = this.getKeyFilePath(networkId, accountId);
+    if (existsSync(keyFilePath)) {
+      await unlink(keyFilePath);
+    }
+  }
+
+  async clear(): Promise<void> {
+    for (const network of await this.getNetworks()) {
+      for (const account of await this.getAccounts(network)) {
+        await this.removeKey(network, account);
+      }
+    }
+  }
+
+  async getNetworks(): Promise<string[]> {
+    const entries = await readdir(this.keyDir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+  }
+
+  async getAccounts(networkId: string): Promise<string[]> {
+    const networkDir = path.join(this.keyDir, networkId);
+    if (!existsSync(networkDir)) {
+      return [];
+    }
+    const files = await readdir(networkDir);
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.replace(/\.json$/, ''));
+  }
+
+  toString() {
+    return `EncryptedFileSystemKeyStore(${this.keyDir})`;
+  }
+}
+
+/**
+ * Open the keystore in `keyDir`, encrypted when a passphrase is given.
+ */
+export const openKeystore = async (
+  keyDir: string,
+  passphrase?: string,
+): Promise<Result<KeyStore, Error>> => {
+  if (passphrase === undefined) {
+    if (isEncryptedKeystore(keyDir)) {
+      return {
+        ok: false,
+        error: new Error(
+          `Keystore ${keyDir} is encrypted, a passphrase is required to unlock it`,
+        ),
+      };
+    }
+    return { ok: true, value: new UnencryptedFileSystemKeyStore(keyDir) };
+  }
+  return EncryptedFileSystemKeyStore.open(keyDir, passphrase);
+};
+
+/**
+ * Copy every key of a plaintext keystore into an encrypted keystore.
+ * Returns the `<networkId>/<accountId>` entries that were migrated.
+ */
+export const migrateToEncryptedKeystore = async (
+  source: UnencryptedFileSystemKeyStore,
+  destination: EncryptedFileSystemKeyStore,
+): Promise<Result<string[], Error>> => {
+  try {
+    const entries = await readdir(source.keyDir, { withFileTypes: true });
+    const networks = entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+
+    const migrated: string[] = [];
+    for (const networkId of networks) {
+      for (const accountId of await source.getAccounts(networkId)) {
+        const keyPair = await source.getKey(networkId, accountId);
+        await destination.setKey(networkId, accountId, keyPair);
+
+        // read the key back to make sure it round trips before reporting it
+        const storedKeyPair: KeyPair | null = await destination.getKey(
+          networkId,
+          accountId,
+        );
+        if (storedKeyPair?.toString() !== keyPair.toString()) {
+          throw new Error(`Key mismatch for ${networkId}/${accountId}`);
+        }
+        migrated.push(`${networkId}/${accountId}`);
+      }
+    }
+    return { ok: true, value: migrated };
+  } catch (e) {
+    return {
+      ok: false,
+      error: new Error(e instanceof Error ? e.message : String(e)),
+    };
+  }
+};
+
+/**
+ * Get the passphrase of the keystore in `keyDir` from
+ * `NEAR_KEYSTORE_PASSPHRASE`, or prompt for it. The passphrase is asked
+ * twice when the encrypted keystore does not exist yet.
+ */
+export const getKeystorePassphrase = async (keyDir: string) => {
+  const envPassphrase = process.env[KEYSTORE_PASSPHRASE_ENV];
+  if (envPassphrase) {
+    return envPassphrase;
+  }
+  const passphrase = await promptPassphrase(
+    `Passphrase for keystore ${keyDir}: `,
+  );
+  if (!isEncryptedKeystore(keyDir)) {
+    const confirmation = await promptPassphrase('Confirm passphrase: ');
+    if (confirmation !== passphrase) {
+      throw new Error('Passphrases do not match');
+    }
+  }
+  return passphrase;
+};
+
+/**
+ * Read a passphrase from the terminal without echoing it. Prompts are
+ * written to stderr since stdout may carry the stdio MCP transport.
+ */
+export const promptPassphrase = (prompt: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const stdin = process.stdin;
+    if (!stdin.isTTY) {
+      reject(
+        new Error(
+          `Cannot prompt for a passphrase without a terminal, set ${KEYSTORE_PASSPHRASE_ENV} instead`,
+        ),
+      );
+      return;
+    }
+
+    let passphrase = '';
+    const cleanup = () => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write('\n');
+    };
+    const onData = (data: string) => {
+      for (const char of data) {
+        switch (char) {
+          case '\r':
+          case '\n':
+          case '\u0004':
+            cleanup();
+            resolve(passphrase);
+            return;
+          case '\u0003':
+            cleanup();
+            reject(new Error('Passphrase prompt cancelled'));
+            return;
+          case '\u007f':
+            passphrase = passphrase.slice(0, -1);
+            break;
+          default:
+            passphrase += char;
+        }
+      }
+    };
+
+    process.stderr.write(prompt);
+    stdin.setEncoding('utf8');
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('data', onData);
+  });
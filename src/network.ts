@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+import { type Result } from './utils';
+
+export const DEFAULT_NETWORK_IDS = ['mainnet', 'testnet'] as const;
+export const LOCALNET_NETWORK_ID = 'localnet';
+
+export const NetworkContractsSchema = z
+  .object({
+    wrapNear: z.string(),
+    refFinance: z.string(),
+    refToken: z.string(),
+    refDclSwap: z.string(),
+  })
+  .partial();
+export type NetworkContracts = z.infer<typeof NetworkContractsSchema>;
+
+export const NetworkConfigSchema = z.object({
+  rpcUrl: z.string().url().describe('The RPC endpoint of the network.'),
+  masterAccountId: z
+    .string()
+    .min(1)
+    .describe(
+      'The top-level account of the network. Accounts created on the network are its sub-accounts.',
+    ),
+  explorerUrl: z.string().url().optional(),
+  contracts: NetworkContractsSchema.default({}).describe(
+    'Contracts deployed on the network, `<name>.<masterAccountId>` when omitted.',
+  ),
+});
+export type NetworkConfig = z.infer<typeof NetworkConfigSchema>;
+
+export const CustomNetworksSchema = z.record(
+  z
+    .string()
+    .regex(/^[a-z0-9-]+$/, 'Network ids must be lowercase alphanumeric')
+    .refine(
+      (networkId) =>
+        !(DEFAULT_NETWORK_IDS as readonly string[]).includes(networkId),
+      'mainnet and testnet cannot be redefined',
+    ),
+  NetworkConfigSchema,
+);
+
+// the defaults of a near-sandbox node
+export const DEFAULT_LOCALNET_NETWORK: NetworkConfig = {
+  rpcUrl: 'http://127.0.0.1:3030',
+  masterAccountId: 'test.near',
+  contracts: {},
+};
+
+export const getNetworkIds = (
+  customNetworks: Record<string, NetworkConfig>,
+): [string, ...string[]] => [
+  ...DEFAULT_NETWORK_IDS,
+  ...Object.keys(customNetworks),
+];
+
+/**
+ * Infer the network of an account from its suffix. The built-in networks
+ * are matched first, so accounts of a custom network whose master account
+ * ends with `.near` (e.g. `test.near` on near-sandbox) resolve to mainnet
+ * and need an explicit network id.
+ */
+export const getNetworkFromAccountId = (
+  accountId: string,
+  customNetworks: Record<string, NetworkConfig> = {},
+): Result<string, Error> => {
+  if (accountId.endsWith('.near')) {
+    return { ok: true, value: 'mainnet' };
+  }
+  if (accountId.endsWith('.testnet')) {
+    return { ok: true, value: 'testnet' };
+  }
+  const customNetwork = Object.entries(customNetworks).find(
+    ([, network]) =>
+      accountId === network.masterAccountId ||
+      accountId.endsWith(`.${network.masterAccountId}`),
+  );
+  if (customNetwork) {
+    return { ok: true, value: customNetwork[0] };
+  }
+  return { ok: false, error: new Error('Invalid account id') };
+};
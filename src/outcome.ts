@@ -0,0 +1,272 @@
+import {
+  type ExecutionOutcomeWithId,
+  ExecutionStatusBasic,
+  type FinalExecutionOutcome,
+  FinalExecutionStatusBasic,
+} from '@near-js/types';
+import { z } from 'zod';
+
+import { formatTokenAmount, NEAR_DECIMALS } from './policy';
+
+// the fields of the untyped `transaction` of an outcome
+export const TransactionViewSchema = z.object({
+  signer_id: z.string(),
+  public_key: z.string(),
+  receiver_id: z.string(),
+  hash: z.string(),
+});
+
+export type ReceiptStatus = 'success' | 'failure' | 'pending' | 'unknown';
+
+export type ReceiptNode = {
+  receiptId: string;
+  executorId: string;
+  // the account that created the receipt, when the RPC returned it
+  predecessorId?: string;
+  status: ReceiptStatus;
+  // the decoded return value of a successful receipt
+  value?: string;
+  failure?: unknown;
+  gasBurnt: bigint;
+  // in yoctoNEAR
+  tokensBurnt: bigint;
+  logs: string[];
+  children: ReceiptNode[];
+};
+
+const decodeReturnValue = (base64: string) => {
+  const value = Buffer.from(base64, 'base64').toString('utf-8');
+  return value.length > 0 ? value : undefined;
+};
+
+const getReceiptNode = (
+  outcome: ExecutionOutcomeWithId,
+  outcomes: Map<string, ExecutionOutcomeWithId>,
+  predecessors: Map<string, string>,
+): ReceiptNode => {
+  const { status } = outcome.outcome;
+  const statusFields: Pick<ReceiptNode, 'status' | 'value' | 'failure'> =
+    typeof status === 'string'
+      ? {
+          status:
+            status === ExecutionStatusBasic.Failure
+              ? 'failure'
+              : status === ExecutionStatusBasic.Pending
+                ? 'pending'
+                : 'unknown',
+        }
+      : status.Failure !== undefined
+        ? { status: 'failure', failure: status.Failure }
+        : {
+            status: 'success',
+            value:
+              status.SuccessValue !== undefined
+                ? decodeReturnValue(status.SuccessValue)
+                : undefined,
+          };
+  return {
+    receiptId: outcome.id,
+    executorId: outcome.outcome.executor_id,
+    predecessorId: predecessors.get(outcome.id),
+    ...statusFields,
+    gasBurnt: BigInt(outcome.outcome.gas_burnt),
+    tokensBurnt: BigInt(outcome.outcome.tokens_burnt),
+    logs: outcome.outcome.logs,
+    children: outcome.outcome.receipt_ids.flatMap((receiptId) => {
+      const child = outcomes.get(receiptId);
+      // receipts are only listed once, which also guards against cycles
+      outcomes.delete(receiptId);
+      return child ? [getReceiptNode(child, outcomes, predecessors)] : [];
+    }),
+  };
+};
+
+/**
+ * The receipts of a transaction as a tree, starting from the receipts
+ * created by the transaction itself.
+ */
+export const getReceiptTree = (outcome: FinalExecutionOutcome): ReceiptNode[] =>
+  getReceiptNode(
+    outcome.transaction_outcome,
+    new Map(outcome.receipts_outcome.map((receipt) => [receipt.id, receipt])),
+    new Map(
+      (outcome.receipts ?? []).map((receipt) => [
+        receipt.receipt_id,
+        receipt.predecessor_id,
+      ]),
+    ),
+  ).children;
+
+const formatGas = (gas: bigint) => `${formatTokenAmount(gas, 12)} TGas`;
+
+const formatReceiptNode = (node: ReceiptNode, depth: number): string[] => {
+  const indent = '  '.repeat(depth);
+  return [
+    `${indent}- ${node.receiptId} on ${node.executorId}` +
+      (node.predecessorId ? ` from ${node.predecessorId}` : '') +
+      `: ${node.status}`,
+    `${indent}  gas burnt ${formatGas(node.gasBurnt)}, tokens burnt ${formatTokenAmount(node.tokensBurnt, NEAR_DECIMALS)} NEAR`,
+    ...(node.value !== undefined
+      ? [`${indent}  return value: ${node.value}`]
+      : []),
+    ...(node.failure !== undefined
+      ? [`${indent}  failure: ${JSON.stringify(node.failure)}`]
+      : []),
+    ...node.logs.map((log) => `${indent}  log: ${log}`),
+    ...node.children.flatMap((child) => formatReceiptNode(child, depth + 1)),
+  ];
+};
+
+export const formatReceiptTree = (receipts: ReceiptNode[]) =>
+  receipts.flatMap((receipt) => formatReceiptNode(receipt, 0)).join('\n');
+
+export const getTransactionStatus = (
+  outcome: FinalExecutionOutcome,
+): ReceiptStatus => {
+  const { status } = outcome;
+  if (typeof status === 'string') {
+    return status === FinalExecutionStatusBasic.Failure ? 'failure' : 'pending';
+  }
+  return status.Failure !== undefined ? 'failure' : 'success';
+};
+
+export const formatTransactionStatus = (outcome: FinalExecutionOutcome) => {
+  const transaction = TransactionViewSchema.safeParse(outcome.transaction);
+  return [
+    ...(transaction.success
+      ? [
+          `Transaction ${transaction.data.hash}`,
+          `Signer: ${transaction.data.signer_id}`,
+          `Receiver: ${transaction.data.receiver_id}`,
+        ]
+      : [`Transaction ${outcome.transaction_outcome.id}`]),
+    `Status: ${getTransactionStatus(outcome)} (${outcome.final_execution_status})`,
+    'Receipts:',
+    formatReceiptTree(getReceiptTree(outcome)),
+  ].join('\n');
+};
+
+export type OutcomeSummary = {
+  status: ReceiptStatus;
+  transactionHash: string;
+  signerId?: string;
+  receiverId?: string;
+  // the page of the transaction on the explorer of its network
+  explorerLink?: string;
+  // of the transaction and all its receipts
+  gasBurnt: bigint;
+  // in yoctoNEAR
+  fee: bigint;
+  returnValues: { receiptId: string; executorId: string; value: string }[];
+  logs: { executorId: string; log: string }[];
+  // the error of the first receipt that failed, or of the transaction
+  // itself when it failed before creating any receipt
+  failure?: { receiptId?: string; executorId?: string; error: unknown };
+};
+
+const flattenReceiptTree = (nodes: ReceiptNode[]): ReceiptNode[] =>
+  nodes.flatMap((node) => [node, ...flattenReceiptTree(node.children)]);
+
+export const summarizeOutcome = (
+  outcome: FinalExecutionOutcome,
+  explorerUrl?: string,
+): OutcomeSummary => {
+  const transaction = TransactionViewSchema.safeParse(outcome.transaction);
+  const transactionHash = transaction.success
+    ? transaction.data.hash
+    : outcome.transaction_outcome.id;
+  const receipts = flattenReceiptTree(getReceiptTree(outcome));
+  const failedReceipt = receipts.find(
+    (receipt) => receipt.status === 'failure',
+  );
+  const status = getTransactionStatus(outcome);
+  return {
+    status,
+    transactionHash,
+    signerId: transaction.success ? transaction.data.signer_id : undefined,
+    receiverId: transaction.success ? transaction.data.receiver_id : undefined,
+    explorerLink: explorerUrl
+      ? `${explorerUrl.replace(/\/$/, '')}/txns/${transactionHash}`
+      : undefined,
+    gasBurnt: [outcome.transaction_outcome, ...outcome.receipts_outcome].reduce(
+      (total, { outcome }) => total + BigInt(outcome.gas_burnt),
+      0n,
+    ),
+    fee: [outcome.transaction_outcome, ...outcome.receipts_outcome].reduce(
+      (total, { outcome }) => total + BigInt(outcome.tokens_burnt),
+      0n,
+    ),
+    returnValues: receipts.flatMap((receipt) =>
+      receipt.value !== undefined
+        ? [
+            {
+              receiptId: receipt.receiptId,
+              executorId: receipt.executorId,
+              value: receipt.value,
+            },
+          ]
+        : [],
+    ),
+    logs: [
+      ...outcome.transaction_outcome.outcome.logs.map((log) => ({
+        executorId: outcome.transaction_outcome.outcome.executor_id,
+        log,
+      })),
+      ...receipts.flatMap((receipt) =>
+        receipt.logs.map((log) => ({ executorId: receipt.executorId, log })),
+      ),
+    ],
+    failure: failedReceipt
+      ? {
+          receiptId: failedReceipt.receiptId,
+          executorId: failedReceipt.executorId,
+          error: failedReceipt.failure,
+        }
+      : status === 'failure' && typeof outcome.status === 'object'
+        ? { error: outcome.status.Failure }
+        : undefined,
+  };
+};
+
+/**
+ * A short summary of a broadcast transaction for the model, in place of
+ * the raw outcome that buries failures in its receipts.
+ */
+export const formatOutcomeSummary = (
+  outcome: FinalExecutionOutcome,
+  explorerUrl?: string,
+) => {
+  const summary = summarizeOutcome(outcome, explorerUrl);
+  const statusText = {
+    success: 'succeeded',
+    failure: 'failed',
+    pending: 'is pending',
+    unknown: 'has an unknown status',
+  }[summary.status];
+  return [
+    `Transaction ${statusText}: ${summary.transactionHash}`,
+    summary.explorerLink && `Explorer: ${summary.explorerLink}`,
+    summary.signerId && `Signer: ${summary.signerId}`,
+    summary.receiverId && `Receiver: ${summary.receiverId}`,
+    `Gas burnt: ${formatGas(summary.gasBurnt)}`,
+    `Fee: ${formatTokenAmount(summary.fee, NEAR_DECIMALS)} NEAR`,
+    summary.failure &&
+      (summary.failure.receiptId
+        ? `Failed receipt ${summary.failure.receiptId} on ${summary.failure.executorId}: ${JSON.stringify(summary.failure.error)}`
+        : `Failure: ${JSON.stringify(summary.failure.error)}`),
+    summary.returnValues.length > 0 &&
+      [
+        'Return values:',
+        ...summary.returnValues.map(
+          ({ executorId, value }) => `- ${executorId}: ${value}`,
+        ),
+      ].join('\n'),
+    summary.logs.length > 0 &&
+      [
+        'Logs:',
+        ...summary.logs.map(({ executorId, log }) => `- ${executorId}: ${log}`),
+      ].join('\n'),
+  ]
+    .filter((line) => typeof line === 'string')
+    .join('\n');
+};
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import assert from 'assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import {
+  createSpendingPolicy,
+  formatTokenAmount,
+  NEAR_DECIMALS,
+  NEAR_TOKEN,
+  parseTokenAmount,
+  type Spend,
+  SpendingPolicyConfigSchema,
+} from './policy';
+
+const nearSpend = (near: string, accountId = 'alice.testnet'): Spend => ({
+  accountId,
+  networkId: 'testnet',
+  token: NEAR_TOKEN,
+  amount: parseTokenAmount(near, NEAR_DECIMALS),
+  decimals: NEAR_DECIMALS,
+});
+
+describe('token amounts', () => {
+  it('parses and formats decimal amounts', () => {
+    assert.equal(parseTokenAmount('1.5', 6), 1_500_000n);
+    assert.equal(parseTokenAmount('0.0000001', 6), 0n);
+    assert.equal(formatTokenAmount(1_500_000n, 6), '1.5');
+    assert.equal(formatTokenAmount(10n ** 24n, NEAR_DECIMALS), '1');
+  });
+});
+
+describe('createSpendingPolicy', () => {
+  let stateDir: string;
+  let stateFile: string;
+  beforeEach(async () => {
+    stateDir = await mkdtemp(path.join(tmpdir(), 'near-mcp-policy-'));
+    stateFile = path.join(stateDir, 'spending-state.json');
+  });
+  afterEach(async () => {
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  const createPolicy = async (limits: unknown[]) => {
+    const policyResult = await createSpendingPolicy(
+      SpendingPolicyConfigSchema.parse({ stateFile, limits }),
+    );
+    assert.ok(policyResult.ok);
+    return policyResult.value;
+  };
+
+  it('rejects spends over the per-transaction limit', async () => {
+    const policy = await createPolicy([{ perTransaction: 1 }]);
+    assert.ok((await policy.reserve(nearSpend('1'))).ok);
+    const result = await policy.reserve(nearSpend('1.1'));
+    assert.ok(!result.ok);
+    assert.match(result.error.message, /per-transaction limit of 1 NEAR/);
+  });
+
+  it('adds up the spends of the daily window', async () => {
+    const policy = await createPolicy([{ daily: '2.5' }]);
+    assert.ok((await policy.reserve(nearSpend('1'))).ok);
+    assert.ok((await policy.reserve(nearSpend('1'))).ok);
+    const result = await policy.reserve(nearSpend('1'));
+    assert.ok(!result.ok);
+    assert.match(result.error.message, /\(2 NEAR already spent\)/);
+  });
+
+  it('frees a released spend', async () => {
+    const policy = await createPolicy([{ daily: 1 }]);
+    const reservation = await policy.reserve(nearSpend('1'));
+    assert.ok(reservation.ok);
+    assert.ok(!(await policy.reserve(nearSpend('1'))).ok);
+    await reservation.value.release();
+    assert.ok((await policy.reserve(nearSpend('1'))).ok);
+  });
+
+  it('applies the limits of the account, network and token only', async () => {
+    const policy = await createPolicy([
+      { accountId: 'alice.testnet', perTransaction: 1 },
+      { networkId: 'mainnet', perTransaction: 0 },
+      { token: 'usdc.testnet', perTransaction: 0 },
+    ]);
+    assert.ok(!(await policy.reserve(nearSpend('2'))).ok);
+    assert.ok((await policy.reserve(nearSpend('2', 'bob.testnet'))).ok);
+  });
+
+  it('keeps the spends across restarts', async () => {
+    const limits = [{ weekly: 1 }];
+    const policy = await createPolicy(limits);
+    assert.ok((await policy.reserve(nearSpend('0.6'))).ok);
+    const state = JSON.parse(await readFile(stateFile, 'utf-8')) as {
+      spends: unknown[];
+    };
+    assert.equal(state.spends.length, 1);
+
+    const restarted = await createPolicy(limits);
+    assert.ok(!(await restarted.reserve(nearSpend('0.6'))).ok);
+  });
+});
@@ -0,0 +1,258 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import path from 'path';
+import { z } from 'zod';
+
+import { type Result } from './utils';
+
+export const NEAR_TOKEN = 'NEAR';
+export const NEAR_DECIMALS = 24;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export const TokenAmountSchema = z
+  .union([z.number().nonnegative(), z.string().regex(/^\d+(\.\d+)?$/)])
+  .transform((amount) => amount.toString());
+
+const SpendingLimitSchema = z.object({
+  accountId: z
+    .string()
+    .default('*')
+    .describe('The signer account the limit applies to, `*` for every one.'),
+  networkId: z
+    .string()
+    .optional()
+    .describe('The network the limit applies to. Every network when omitted.'),
+  token: z
+    .string()
+    .default(NEAR_TOKEN)
+    .describe('`NEAR` or the account id of a fungible token contract.'),
+  perTransaction: TokenAmountSchema.optional().describe(
+    'The most that a single transaction may spend, in NEAR or in token units.',
+  ),
+  daily: TokenAmountSchema.optional().describe(
+    'The most that may be spent over the last 24 hours.',
+  ),
+  weekly: TokenAmountSchema.optional().describe(
+    'The most that may be spent over the last 7 days.',
+  ),
+});
+export type SpendingLimit = z.infer<typeof SpendingLimitSchema>;
+
+export const SpendingPolicyConfigSchema = z.object({
+  stateFile: z
+    .string()
+    .default(path.join(homedir(), '.near-mcp', 'spending-state.json'))
+    .describe('The file recording the spends of the rolling windows.'),
+  limits: z.array(SpendingLimitSchema).default([]),
+});
+export type SpendingPolicyConfig = z.infer<typeof SpendingPolicyConfigSchema>;
+
+const SpendRecordSchema = z.object({
+  accountId: z.string(),
+  networkId: z.string(),
+  token: z.string(),
+  // in the smallest units of the token
+  amount: z.string().regex(/^\d+$/),
+  timestamp: z.number(),
+});
+type SpendRecord = z.infer<typeof SpendRecordSchema>;
+
+const SpendingStateSchema = z.object({
+  spends: z.array(SpendRecordSchema).default([]),
+});
+
+export type Spend = {
+  accountId: string;
+  networkId: string;
+  // `NEAR` or the fungible token contract
+  token: string;
+  // in the smallest units of the token
+  amount: bigint;
+  decimals: number;
+  // shown in errors instead of the token contract, e.g. USDC
+  symbol?: string;
+};
+
+export type SpendingReservation = {
+  // undo the spend, e.g. when the transaction failed
+  release: () => Promise<void>;
+};
+
+export type SpendingPolicy = {
+  // check the spend against the limits and record it when allowed
+  reserve: (spend: Spend) => Promise<Result<SpendingReservation, Error>>;
+};
+
+export const parseTokenAmount = (amount: string, decimals: number): bigint => {
+  const [whole = '0', fraction = ''] = amount.split('.');
+  return BigInt(
+    whole + fraction.padEnd(decimals, '0').substring(0, decimals) || '0',
+  );
+};
+
+export const formatTokenAmount = (amount: bigint, decimals: number): string => {
+  const padded = amount.toString().padStart(decimals + 1, '0');
+  const whole = padded.substring(0, padded.length - decimals);
+  const fraction = padded
+    .substring(padded.length - decimals)
+    .replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+};
+
+const loadSpendingState = async (
+  stateFile: string,
+): Promise<Result<SpendRecord[], Error>> => {
+  try {
+    const state = SpendingStateSchema.parse(
+      JSON.parse(await readFile(stateFile, 'utf-8')),
+    );
+    return { ok: true, value: state.spends };
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { ok: true, value: [] };
+    }
+    return {
+      ok: false,
+      error: new Error(
+        `Failed to load spending state ${stateFile}: ${String(e)}`,
+      ),
+    };
+  }
+};
+
+/**
+ * Create the spending policy checked before a transaction is signed. Spends
+ * are persisted to the state file so the rolling windows survive restarts.
+ */
+export const createSpendingPolicy = async (
+  config: SpendingPolicyConfig = SpendingPolicyConfigSchema.parse({}),
+): Promise<Result<SpendingPolicy, Error>> => {
+  const stateResult = await loadSpendingState(config.stateFile);
+  if (!stateResult.ok) {
+    return stateResult;
+  }
+  let spends = stateResult.value;
+
+  // writes are chained so a slow write never overwrites a later one
+  let pendingWrite = Promise.resolve();
+  const persist = () => {
+    const state = JSON.stringify({ spends }, null, 2);
+    const write = pendingWrite.then(async () => {
+      await mkdir(path.dirname(config.stateFile), { recursive: true });
+      await writeFile(config.stateFile, state, { mode: 0o600 });
+    });
+    pendingWrite = write.catch(() => undefined);
+    return write;
+  };
+
+  const spentSince = (spend: Spend, since: number) =>
+    spends
+      .filter(
+        (record) =>
+          record.accountId === spend.accountId &&
+          record.networkId === spend.networkId &&
+          record.token === spend.token &&
+          record.timestamp > since,
+      )
+      .reduce((total, record) => total + BigInt(record.amount), 0n);
+
+  const checkLimit = (
+    spend: Spend,
+    limit: SpendingLimit,
+    now: number,
+  ): Result<void, Error> => {
+    const symbol = spend.symbol ?? spend.token;
+    const format = (amount: bigint) =>
+      `${formatTokenAmount(amount, spend.decimals)} ${symbol}`;
+    const windows = [
+      { name: 'per-transaction', cap: limit.perTransaction, spent: 0n },
+      {
+        name: 'daily',
+        cap: limit.daily,
+        spent: spentSince(spend, now - DAY_MS),
+      },
+      {
+        name: 'weekly',
+        cap: limit.weekly,
+        spent: spentSince(spend, now - WEEK_MS),
+      },
+    ];
+    for (const window of windows) {
+      if (window.cap === undefined) {
+        continue;
+      }
+      const cap = parseTokenAmount(window.cap, spend.decimals);
+      if (window.spent + spend.amount > cap) {
+        return {
+          ok: false,
+          error: new Error(
+            `Spending limit exceeded: spending ${format(spend.amount)} from ${spend.accountId} exceeds the ${window.name} limit of ${format(cap)}` +
+              (window.spent > 0n
+                ? ` (${format(window.spent)} already spent)`
+                : ''),
+          ),
+        };
+      }
+    }
+    return { ok: true, value: undefined };
+  };
+
+  return {
+    ok: true,
+    value: {
+      reserve: async (spend) => {
+        const now = Date.now();
+        const limits = config.limits.filter(
+          (limit) =>
+            (limit.accountId === '*' || limit.accountId === spend.accountId) &&
+            (!limit.networkId || limit.networkId === spend.networkId) &&
+            limit.token === spend.token,
+        );
+        for (const limit of limits) {
+          const limitResult = checkLimit(spend, limit, now);
+          if (!limitResult.ok) {
+            return limitResult;
+          }
+        }
+        // spends without a limit do not need to be recorded
+        if (limits.length === 0 || spend.amount === 0n) {
+          return { ok: true, value: { release: () => Promise.resolve() } };
+        }
+
+        // the spend is recorded before any await, so concurrent
+        // transactions cannot both fit under the same cap
+        const record: SpendRecord = {
+          accountId: spend.accountId,
+          networkId: spend.networkId,
+          token: spend.token,
+          amount: spend.amount.toString(),
+          timestamp: now,
+        };
+        spends = [
+          ...spends.filter((existing) => existing.timestamp > now - WEEK_MS),
+          record,
+        ];
+        try {
+          await persist();
+        } catch (e) {
+          spends = spends.filter((existing) => existing !== record);
+          return {
+            ok: false,
+            error: new Error(`Failed to persist spending state: ${String(e)}`),
+          };
+        }
+        return {
+          ok: true,
+          value: {
+            release: async () => {
+              spends = spends.filter((existing) => existing !== record);
+              await persist();
+            },
+          },
+        };
+      },
+    },
+  };
+};
@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+
+import assert from 'assert/strict';
+import { createHash } from 'crypto';
+import { KeyPair, transactions } from 'near-api-js';
+
+import {
+  createRelayerPolicy,
+  decodeSignedDelegate,
+  type DelegateActionSummary,
+  RelayerConfigSchema,
+} from './relayer';
+
+type DelegateAction = Parameters<typeof transactions.encodeDelegateAction>[0];
+
+const TGAS = 10n ** 12n;
+
+const signDelegate = (
+  actions: transactions.Action[],
+  keyPair = KeyPair.fromRandom('ed25519'),
+  signingKeyPair = keyPair,
+) => {
+  const delegateAction: DelegateAction = {
+    senderId: 'alice.near',
+    receiverId: 'usdc.near',
+    actions,
+    nonce: 7n,
+    maxBlockHeight: 1000n,
+    publicKey: keyPair.getPublicKey(),
+  };
+  const { signature } = signingKeyPair.sign(
+    createHash('sha256')
+      .update(transactions.encodeDelegateAction(delegateAction))
+      .digest(),
+  );
+  return Buffer.from(
+    transactions.encodeSignedDelegate({
+      delegateAction,
+      signature: new transactions.Signature({
+        keyType: keyPair.getPublicKey().keyType,
+        data: signature,
+      }),
+    }),
+  ).toString('base64');
+};
+
+describe('decodeSignedDelegate', () => {
+  it('decodes the actions and checks the signature', () => {
+    const keyPair = KeyPair.fromRandom('ed25519');
+    const result = decodeSignedDelegate(
+      signDelegate(
+        [
+          transactions.functionCall(
+            'ft_transfer',
+            { receiver_id: 'bob.near', amount: '1' },
+            30n * TGAS,
+            1n,
+          ),
+        ],
+        keyPair,
+      ),
+    );
+    assert.ok(result.ok);
+    assert.ok(result.value.signatureValid);
+    assert.deepEqual(result.value.summary, {
+      senderId: 'alice.near',
+      receiverId: 'usdc.near',
+      actions: [
+        {
+          type: 'FunctionCall',
+          methodName: 'ft_transfer',
+          gas: 30n * TGAS,
+          deposit: 1n,
+        },
+      ],
+      nonce: 7n,
+      maxBlockHeight: 1000n,
+      publicKey: keyPair.getPublicKey().toString(),
+    });
+  });
+
+  it('flags a signature of another key', () => {
+    const result = decodeSignedDelegate(
+      signDelegate(
+        [transactions.transfer(1n)],
+        KeyPair.fromRandom('ed25519'),
+        KeyPair.fromRandom('ed25519'),
+      ),
+    );
+    assert.ok(result.ok);
+    assert.ok(!result.value.signatureValid);
+  });
+
+  it('rejects bytes that are not a signed delegate', () => {
+    assert.ok(!decodeSignedDelegate('AAAA').ok);
+  });
+});
+
+describe('createRelayerPolicy', () => {
+  const policy = createRelayerPolicy(
+    RelayerConfigSchema.parse({
+      senders: ['*.near'],
+      receivers: [{ receiverId: 'usdc.near', methodNames: ['ft_*'] }],
+      maxGas: (50n * TGAS).toString(),
+    }),
+  );
+  const delegate = (
+    actions: DelegateActionSummary['actions'],
+    senderId = 'alice.near',
+  ): DelegateActionSummary => ({
+    senderId,
+    receiverId: 'usdc.near',
+    actions,
+    nonce: 1n,
+    maxBlockHeight: 1000n,
+    publicKey: 'ed25519:6E8sCci9badyRkXb3JoRpBj5p8C6Tw41ELDZoiihKEtp',
+  });
+
+  it('sponsors the configured calls', () => {
+    assert.ok(
+      policy.check(
+        delegate([
+          { type: 'FunctionCall', methodName: 'ft_transfer', gas: 30n * TGAS },
+        ]),
+      ).ok,
+    );
+  });
+
+  it('rejects other senders, methods, actions and gas', () => {
+    const transfer = {
+      type: 'FunctionCall' as const,
+      methodName: 'ft_transfer',
+      gas: 30n * TGAS,
+    };
+    assert.ok(!policy.check(delegate([transfer], 'alice.testnet')).ok);
+    assert.ok(
+      !policy.check(delegate([{ ...transfer, methodName: 'storage_deposit' }]))
+        .ok,
+    );
+    assert.ok(!policy.check(delegate([{ type: 'Transfer', deposit: 1n }])).ok);
+    const result = policy.check(delegate([transfer, transfer]));
+    assert.ok(!result.ok);
+    assert.match(result.error.message, /more than the \d+ the relayer/);
+  });
+});
@@ -0,0 +1,248 @@
+import { deserialize } from 'borsh';
+import { createHash } from 'crypto';
+import { transactions } from 'near-api-js';
+import { z } from 'zod';
+
+import {
+  BorshPublicKeySchema,
+  toPublicKey,
+  TRANSACTION_ACTION_TYPES,
+  type TransactionAction,
+} from './actions';
+import { matchesToolPattern } from './tool-filter';
+import { type Result } from './utils';
+
+const SponsoredReceiverSchema = z.object({
+  receiverId: z
+    .string()
+    .describe(
+      'Glob pattern of the receivers of the delegate actions, e.g. `*.pool.near`.',
+    ),
+  actions: z
+    .array(z.enum(TRANSACTION_ACTION_TYPES))
+    .default(['FunctionCall'])
+    .describe('The types of the actions sponsored.'),
+  methodNames: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Glob patterns of the methods sponsored, any method when omitted.',
+    ),
+});
+
+export const RelayerConfigSchema = z.object({
+  senders: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Glob patterns of the senders whose delegate actions are sponsored, any sender when omitted.',
+    ),
+  receivers: z
+    .array(SponsoredReceiverSchema)
+    .default([])
+    .describe('The receivers and methods sponsored, none when empty.'),
+  maxGas: z
+    .union([z.string().regex(/^\d+$/), z.number().int().positive()])
+    .transform((gas) => BigInt(gas))
+    .optional()
+    .describe(
+      'The most gas the function calls of a delegate action may attach, in gas units.',
+    ),
+});
+export type RelayerConfig = z.infer<typeof RelayerConfigSchema>;
+
+export type DelegateActionSummary = {
+  senderId: string;
+  receiverId: string;
+  actions: {
+    type: TransactionAction['type'];
+    methodName?: string;
+    gas?: bigint;
+    // in yoctoNEAR
+    deposit?: bigint;
+  }[];
+  nonce: bigint;
+  maxBlockHeight: bigint;
+  publicKey: string;
+};
+
+export type DecodedSignedDelegate = {
+  summary: DelegateActionSummary;
+  // whether the sender's key signed the delegate action
+  signatureValid: boolean;
+  // the action of the relayer's transaction executing the delegate action
+  action: transactions.Action;
+};
+
+type DelegateAction = Parameters<typeof transactions.encodeDelegateAction>[0];
+
+const BytesSchema = z.object({ data: z.array(z.number()) });
+
+const SignedDelegateSchema = z.object({
+  delegateAction: z.object({
+    senderId: z.string(),
+    receiverId: z.string(),
+    // borsh enums, keyed by the variant of the action
+    actions: z.array(z.record(z.string(), z.unknown())),
+    nonce: z.bigint(),
+    maxBlockHeight: z.bigint(),
+    publicKey: BorshPublicKeySchema,
+  }),
+  signature: z.union([
+    z.object({ ed25519Signature: BytesSchema }),
+    z.object({ secp256k1Signature: BytesSchema }),
+  ]),
+});
+
+const ActionVariantSchema = z.object({
+  gas: z.bigint().optional(),
+  deposit: z.bigint().optional(),
+  methodName: z.string().optional(),
+});
+
+const ACTION_VARIANTS: Record<string, TransactionAction['type']> = {
+  transfer: 'Transfer',
+  functionCall: 'FunctionCall',
+  addKey: 'AddKey',
+  deleteKey: 'DeleteKey',
+  createAccount: 'CreateAccount',
+  deployContract: 'DeployContract',
+  stake: 'Stake',
+  deleteAccount: 'DeleteAccount',
+};
+
+/**
+ * Decode a base64, borsh serialized `SignedDelegate` and check that it is
+ * signed by the key it names.
+ */
+export const decodeSignedDelegate = (
+  base64: string,
+): Result<DecodedSignedDelegate, Error> => {
+  try {
+    const decoded = deserialize(
+      transactions.SCHEMA.SignedDelegate,
+      Buffer.from(base64, 'base64'),
+    );
+    const { delegateAction, signature } = SignedDelegateSchema.parse(decoded);
+
+    const actions: DelegateActionSummary['actions'] = [];
+    for (const action of delegateAction.actions) {
+      const [variant, value] = Object.entries(action)[0] ?? [];
+      const type = variant !== undefined ? ACTION_VARIANTS[variant] : undefined;
+      if (!type) {
+        return {
+          ok: false,
+          error: new Error(
+            `Unsupported action ${variant} in the delegate action`,
+          ),
+        };
+      }
+      const { methodName, gas, deposit } = ActionVariantSchema.parse(value);
+      actions.push({ type, methodName, gas, deposit });
+    }
+
+    const publicKey = toPublicKey(delegateAction.publicKey);
+    const signatureData = Uint8Array.from(
+      'ed25519Signature' in signature
+        ? signature.ed25519Signature.data
+        : signature.secp256k1Signature.data,
+    );
+    // the signature covers the prefixed borsh encoding of the action
+    const hash = createHash('sha256')
+      .update(
+        transactions.encodeDelegateAction(
+          (decoded as { delegateAction: DelegateAction }).delegateAction,
+        ),
+      )
+      .digest();
+
+    return {
+      ok: true,
+      value: {
+        summary: {
+          senderId: delegateAction.senderId,
+          receiverId: delegateAction.receiverId,
+          actions,
+          nonce: delegateAction.nonce,
+          maxBlockHeight: delegateAction.maxBlockHeight,
+          publicKey: publicKey.toString(),
+        },
+        signatureValid: publicKey.verify(hash, signatureData),
+        action: new transactions.Action({ signedDelegate: decoded }),
+      },
+    };
+  } catch (e) {
+    return {
+      ok: false,
+      error: new Error(`Invalid signed delegate action: ${String(e)}`),
+    };
+  }
+};
+
+export type RelayerPolicy = {
+  // whether the relayer sponsors the delegate action
+  check: (delegate: DelegateActionSummary) => Result<void, Error>;
+};
+
+export const createRelayerPolicy = (config: RelayerConfig): RelayerPolicy => ({
+  check: (delegate) => {
+    if (
+      config.senders &&
+      !config.senders.some((pattern) =>
+        matchesToolPattern(delegate.senderId, pattern),
+      )
+    ) {
+      return {
+        ok: false,
+        error: new Error(
+          `The relayer does not sponsor delegate actions of ${delegate.senderId}`,
+        ),
+      };
+    }
+    const receivers = config.receivers.filter((receiver) =>
+      matchesToolPattern(delegate.receiverId, receiver.receiverId),
+    );
+    if (receivers.length === 0) {
+      return {
+        ok: false,
+        error: new Error(
+          `The relayer does not sponsor delegate actions to ${delegate.receiverId}`,
+        ),
+      };
+    }
+    for (const action of delegate.actions) {
+      const sponsored = receivers.some(
+        (receiver) =>
+          receiver.actions.includes(action.type) &&
+          (action.type !== 'FunctionCall' ||
+            !receiver.methodNames ||
+            receiver.methodNames.some((pattern) =>
+              matchesToolPattern(action.methodName ?? '', pattern),
+            )),
+      );
+      if (!sponsored) {
+        return {
+          ok: false,
+          error: new Error(
+            action.type === 'FunctionCall'
+              ? `The relayer does not sponsor calls to ${action.methodName} of ${delegate.receiverId}`
+              : `The relayer does not sponsor ${action.type} actions to ${delegate.receiverId}`,
+          ),
+        };
+      }
+    }
+    const gas = delegate.actions.reduce(
+      (total, action) => total + (action.gas ?? 0n),
+      0n,
+    );
+    if (config.maxGas !== undefined && gas > config.maxGas) {
+      return {
+        ok: false,
+        error: new Error(
+          `The delegate action attaches ${gas} gas, more than the ${config.maxGas} the relayer sponsors`,
+        ),
+      };
+    }
+    return { ok: true, value: undefined };
+  },
+});
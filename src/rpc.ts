@@ -0,0 +1,307 @@
+import { getEndpointsByNetwork, type RpcQueryProvider } from '@near-js/client';
+import { type KeyStore } from '@near-js/keystores';
+import {
+  type FinalExecutionOutcome,
+  type TxExecutionStatus,
+} from '@near-js/types';
+import { ServerError } from '@near-js/utils';
+import { connect, type Near, providers, type transactions } from 'near-api-js';
+import { z } from 'zod';
+
+import {
+  CustomNetworksSchema,
+  DEFAULT_LOCALNET_NETWORK,
+  LOCALNET_NETWORK_ID,
+  type NetworkConfig,
+} from './network';
+import { readJsonFile, type Result } from './utils';
+
+export const RPC_URLS_ENV_PREFIX = 'NEAR_RPC_URLS_';
+
+const RpcEndpointSchema = z.union([
+  z.string().url(),
+  z.object({
+    url: z.string().url(),
+    headers: z
+      .record(z.string(), z.string())
+      .optional()
+      .describe('Extra headers sent to the endpoint, e.g. an API key.'),
+  }),
+]);
+
+export const RpcConfigSchema = z.object({
+  networks: CustomNetworksSchema.default({}).describe(
+    'Custom networks by network id, e.g. a local sandbox. `localnet` points to a near-sandbox node on its default port unless redefined.',
+  ),
+  endpoints: z
+    .record(z.string(), z.array(RpcEndpointSchema).min(1))
+    .default({})
+    .describe(
+      'RPC endpoints by network id, tried in order. The public endpoints are used for networks that are not listed.',
+    ),
+  retries: z
+    .number()
+    .int()
+    .min(0)
+    .default(3)
+    .describe('Number of retries against an endpoint before failing over.'),
+  wait: z
+    .number()
+    .int()
+    .min(0)
+    .default(500)
+    .describe('Milliseconds to wait before the first retry.'),
+  backoff: z
+    .number()
+    .min(1)
+    .default(1.5)
+    .describe('Multiplier applied to the wait between each retry.'),
+  timeout: z
+    .number()
+    .int()
+    .min(1)
+    .default(30_000)
+    .describe('Milliseconds before a request to an endpoint times out.'),
+});
+export type RpcConfig = z.infer<typeof RpcConfigSchema>;
+
+export type RpcEndpoint = {
+  url: string;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Load the RPC config from an optional JSON file, on top of the given
+ * defaults, e.g. the `rpc` section of the server config. The endpoints of a
+ * network can be overridden with a comma separated list of urls in
+ * `NEAR_RPC_URLS_<NETWORK>`, e.g. `NEAR_RPC_URLS_MAINNET`.
+ */
+export const loadRpcConfig = async (
+  rpcConfigFile?: string,
+  defaults: Partial<RpcConfig> = {},
+): Promise<Result<RpcConfig, Error>> => {
+  const fileConfigResult: Result<unknown, Error> = rpcConfigFile
+    ? await readJsonFile(rpcConfigFile)
+    : { ok: true, value: {} };
+  if (!fileConfigResult.ok) {
+    return fileConfigResult;
+  }
+
+  const parsedConfig = RpcConfigSchema.partial().safeParse(
+    fileConfigResult.value,
+  );
+  if (!parsedConfig.success) {
+    return {
+      ok: false,
+      error: new Error(`Invalid RPC config: ${parsedConfig.error.message}`),
+    };
+  }
+
+  const envEndpoints = Object.fromEntries(
+    Object.entries(process.env)
+      .filter(([name, value]) => name.startsWith(RPC_URLS_ENV_PREFIX) && value)
+      .map(([name, value]) => [
+        name.substring(RPC_URLS_ENV_PREFIX.length).toLowerCase(),
+        value!
+          .split(',')
+          .map((url) => url.trim())
+          .filter((url) => url.length > 0),
+      ]),
+  );
+  const mergedConfig = RpcConfigSchema.safeParse({
+    ...defaults,
+    ...parsedConfig.data,
+    endpoints: {
+      ...defaults.endpoints,
+      ...parsedConfig.data.endpoints,
+      ...envEndpoints,
+    },
+    networks: { ...defaults.networks, ...parsedConfig.data.networks },
+  });
+  if (!mergedConfig.success) {
+    return {
+      ok: false,
+      error: new Error(`Invalid RPC config: ${mergedConfig.error.message}`),
+    };
+  }
+  return { ok: true, value: mergedConfig.data };
+};
+
+// JsonRpcProvider retries failed requests but never times out on a hanging
+// endpoint, so the request is raced against a timer
+class TimeoutJsonRpcProvider extends providers.JsonRpcProvider {
+  constructor(
+    endpoint: RpcEndpoint,
+    options: { retries: number; wait: number; backoff: number },
+    private timeout: number,
+  ) {
+    super(endpoint, options);
+  }
+
+  async sendJsonRpc<T>(method: string, params: object): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new Error(
+              `Request ${method} to ${this.connection.url} timed out after ${this.timeout}ms`,
+            ),
+          ),
+        this.timeout,
+      );
+    });
+    try {
+      return await Promise.race([
+        super.sendJsonRpc<T>(method, params),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// FailoverRpcProvider moves to the next endpoint on any error, hiding why a
+// node rejected a transaction. A rejection, e.g. an invalid nonce, is the
+// same on every endpoint, so it is thrown for the caller to handle.
+class TransactionFailoverRpcProvider extends providers.FailoverRpcProvider {
+  private endpointIndex = 0;
+
+  constructor(private endpointProviders: providers.JsonRpcProvider[]) {
+    super(endpointProviders);
+  }
+
+  async sendTransactionUntil(
+    signedTransaction: transactions.SignedTransaction,
+    waitUntil: TxExecutionStatus,
+  ): Promise<FinalExecutionOutcome> {
+    let lastError: unknown;
+    const { length } = this.endpointProviders;
+    for (let attempt = 0; attempt < length; attempt++) {
+      const provider = this.endpointProviders[this.endpointIndex]!;
+      try {
+        return await provider.sendTransactionUntil(
+          signedTransaction,
+          waitUntil,
+        );
+      } catch (e) {
+        if (e instanceof ServerError) {
+          throw e;
+        }
+        lastError = e;
+        this.endpointIndex = (this.endpointIndex + 1) % length;
+      }
+    }
+    throw lastError;
+  }
+
+  sendTransaction(signedTransaction: transactions.SignedTransaction) {
+    return this.sendTransactionUntil(signedTransaction, 'EXECUTED_OPTIMISTIC');
+  }
+}
+
+export type RpcProviders = {
+  // the custom networks, including localnet
+  networks: Record<string, NetworkConfig>;
+  getEndpoints: (networkId: string) => RpcEndpoint[];
+  getProvider: (networkId: string) => providers.FailoverRpcProvider;
+  // provider for the `@near-js/client` functions
+  getRpcQueryProvider: (networkId: string) => RpcQueryProvider;
+  connect: (networkId: string, keyStore?: KeyStore) => Promise<Near>;
+};
+
+/**
+ * Create the RPC providers of every network. Each network gets a single
+ * provider failing over round-robin across its endpoints, shared by every
+ * tool call so a failing endpoint is skipped by the following requests.
+ */
+export const createRpcProviders = (
+  config: RpcConfig = RpcConfigSchema.parse({}),
+): RpcProviders => {
+  const networkProviders = new Map<string, providers.FailoverRpcProvider>();
+  const networks: Record<string, NetworkConfig> = {
+    [LOCALNET_NETWORK_ID]: DEFAULT_LOCALNET_NETWORK,
+    ...config.networks,
+  };
+
+  const getEndpoints = (networkId: string): RpcEndpoint[] => {
+    const customNetwork = networks[networkId];
+    const endpoints =
+      config.endpoints[networkId] ??
+      (customNetwork
+        ? [customNetwork.rpcUrl]
+        : (getEndpointsByNetwork(networkId) ?? []));
+    return endpoints.map((endpoint) =>
+      typeof endpoint === 'string' ? { url: endpoint } : endpoint,
+    );
+  };
+
+  const getProvider = (networkId: string) => {
+    const existingProvider = networkProviders.get(networkId);
+    if (existingProvider) {
+      return existingProvider;
+    }
+    const endpoints = getEndpoints(networkId);
+    if (endpoints.length === 0) {
+      throw new Error(`No RPC endpoints configured for network ${networkId}`);
+    }
+    const provider = new TransactionFailoverRpcProvider(
+      endpoints.map(
+        (endpoint) =>
+          new TimeoutJsonRpcProvider(
+            endpoint,
+            {
+              retries: config.retries,
+              wait: config.wait,
+              backoff: config.backoff,
+            },
+            config.timeout,
+          ),
+      ),
+    );
+    networkProviders.set(networkId, provider);
+    return provider;
+  };
+
+  const getRpcQueryProvider = (networkId: string): RpcQueryProvider => {
+    const provider = getProvider(networkId);
+    return {
+      block: (block) => provider.block(block),
+      chunk: (chunkId) => provider.chunk(chunkId),
+      getTransaction: ({
+        transactionHash,
+        account,
+        includeReceipts,
+        waitUntil,
+      }) =>
+        includeReceipts
+          ? provider.txStatusReceipts(
+              transactionHash,
+              account,
+              waitUntil ?? 'EXECUTED_OPTIMISTIC',
+            )
+          : provider.txStatus(
+              transactionHash,
+              account,
+              waitUntil ?? 'EXECUTED_OPTIMISTIC',
+            ),
+      sendTransaction: (transaction) => provider.sendTransaction(transaction),
+      query: (...args) => provider.query(...(args as [string, string])),
+    };
+  };
+
+  return {
+    networks,
+    getEndpoints,
+    getProvider,
+    getRpcQueryProvider,
+    connect: (networkId, keyStore) =>
+      connect({
+        networkId,
+        nodeUrl: getEndpoints(networkId)[0]!.url,
+        provider: getProvider(networkId),
+        keyStore,
+      }),
+  };
+};
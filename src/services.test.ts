@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryKeyStore } from '@near-js/keystores';
+import { UnencryptedFileSystemKeyStore } from '@near-js/keystores-node';
+import assert from 'assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { KeyPair } from 'near-api-js';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import {
+  type AuthConfig,
+  AuthConfigSchema,
+  type AuthPrincipal,
+  getApiKeyPrincipal,
+  principalDirectoryName,
+} from './auth';
+import { createRpcProviders, RpcConfigSchema } from './rpc';
+import { createMcpServer, createSessionMcpServerFactory } from './services';
+
+describe('createSessionMcpServerFactory', () => {
+  let root: string;
+  let auth: AuthConfig;
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'near-mcp-principals-'));
+    auth = AuthConfigSchema.parse({
+      apiKeys: [
+        { name: 'alice', key: 'alice-api-key-0123456789' },
+        { name: 'bob', key: 'bob-api-key-0123456789' },
+      ],
+      principalKeystoreRoot: root,
+    });
+    // the first principal has a key in its keystore directory
+    await new UnencryptedFileSystemKeyStore(
+      path.join(
+        root,
+        principalDirectoryName({ kind: 'apiKey', name: 'alice' }),
+      ),
+    ).setKey('testnet', 'alice.testnet', KeyPair.fromRandom('ed25519'));
+  });
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const connect = async (principal?: AuthPrincipal) => {
+    const factoryResult = await createSessionMcpServerFactory(
+      new InMemoryKeyStore(),
+      path.join(root, 'server'),
+      { rpc: createRpcProviders(RpcConfigSchema.parse({})) },
+      auth,
+    );
+    assert.ok(factoryResult.ok);
+    const { mcp } = await factoryResult.value(principal);
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      mcp.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+    const callTool = async (name: string, args: Record<string, unknown>) => {
+      const result = (await client.callTool({
+        name,
+        arguments: args,
+      })) as CallToolResult;
+      const [content] = result.content;
+      return content?.type === 'text' ? content.text : '';
+    };
+    return { client, callTool };
+  };
+
+  it('keeps a principal away from the key files of another', async () => {
+    const aliceKeyFile = path.join(
+      principalDirectoryName({ kind: 'apiKey', name: 'alice' }),
+      'testnet',
+      'alice.testnet.json',
+    );
+    const { client, callTool } = await connect(
+      getApiKeyPrincipal(auth, auth.apiKeys[1]!),
+    );
+    for (const filePath of [
+      path.join(root, aliceKeyFile),
+      path.join('..', aliceKeyFile),
+    ]) {
+      assert.match(
+        await callTool('system_import_account', {
+          args: { op: 'import_from_file', filePath, networkId: 'testnet' },
+        }),
+        /is outside of the directory of this session/,
+      );
+    }
+    assert.match(
+      await callTool('account_export_account', {
+        accountId: 'alice.testnet',
+        networkId: 'testnet',
+        filePath: path.join('..', 'alice.testnet.json'),
+      }),
+      /is outside of the directory of this session/,
+    );
+    const keypairs = JSON.parse(
+      await callTool('system_list_local_keypairs', { networkId: 'testnet' }),
+    ) as { keypairs: unknown[] };
+    assert.deepEqual(keypairs.keypairs, []);
+    await client.close();
+  });
+
+  it('deploys no contract file from outside of the directory', async () => {
+    const { client, callTool } = await connect(
+      getApiKeyPrincipal(auth, auth.apiKeys[1]!),
+    );
+    assert.match(
+      await callTool('contract_deploy', {
+        accountId: 'bob.testnet',
+        wasmFilePath: '/etc/passwd',
+        networkId: 'testnet',
+      }),
+      /is outside of the directory of this session/,
+    );
+    assert.match(
+      await callTool('contract_deploy', {
+        accountId: 'bob.testnet',
+        networkId: 'testnet',
+      }),
+      /Give either the code or the wasmFilePath/,
+    );
+    await client.close();
+  });
+
+  it('uses no file of the server in sessions without a directory', async () => {
+    const { client, callTool } = await connect();
+    const names = (await client.listTools()).tools.map(({ name }) => name);
+    assert.ok(!names.includes('account_export_account'));
+    assert.match(
+      await callTool('system_import_account', {
+        args: {
+          op: 'import_from_file',
+          filePath: 'alice.testnet.json',
+          networkId: 'testnet',
+        },
+      }),
+      /Files of the server cannot be used in this session/,
+    );
+    await client.close();
+  });
+});
+
+describe('createMcpServer', () => {
+  it('registers the contract functions it is given without an RPC call', async () => {
+    // no RPC endpoint answers, so the ABI cannot be fetched
+    const mcp = await createMcpServer(new InMemoryKeyStore(), {
+      rpc: createRpcProviders(
+        RpcConfigSchema.parse({
+          endpoints: { testnet: ['http://127.0.0.1:9'] },
+          retries: 0,
+        }),
+      ),
+      contractTools: [
+        {
+          contractId: 'wrap.testnet',
+          networkId: 'testnet',
+          functions: [
+            {
+              name: 'ft_balance_of',
+              kind: 'view',
+              payable: false,
+              borshResult: false,
+            },
+          ],
+        },
+      ],
+    });
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      mcp.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+    const names = (await client.listTools()).tools.map(({ name }) => name);
+    assert.ok(names.includes('wrap_testnet__ft_balance_of'));
+    await client.close();
+  });
+});
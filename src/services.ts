@@ -1,15 +1,24 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  McpServer,
+  type RegisteredTool,
+  type ToolCallback,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  type CallToolResult,
+  isInitializeRequest,
+  type LoggingLevel,
+  LoggingLevelSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import {
-  createTopLevelAccount,
-  deleteAccount,
-  getEndpointsByNetwork,
-  getProviderByNetwork,
   getSignerFromKeystore,
   type MessageSigner,
+  signTransaction,
 } from '@near-js/client';
 import { type KeyPairString, type KeyType, PublicKey } from '@near-js/crypto';
+import { InMemoryKeyStore, type KeyStore } from '@near-js/keystores';
 import {
   readKeyFile,
   UnencryptedFileSystemKeyStore,
@@ -17,19 +26,97 @@ import {
 import {
   type ContractCodeView,
   type FinalExecutionOutcome,
-  type SerializedReturnValue,
+  type ViewStateResult,
 } from '@near-js/types';
 import base58 from 'bs58';
+import { createHash, randomUUID } from 'crypto';
 import express, { type Request, type Response } from 'express';
-import { writeFile } from 'fs/promises';
+import { readFile, writeFile } from 'fs/promises';
 import { type AbiRoot } from 'near-abi';
-import { type Account, connect, KeyPair, type Near } from 'near-api-js';
+import { type Account, KeyPair, type Near, transactions } from 'near-api-js';
 import { homedir } from 'os';
 import path from 'path';
-import { z } from 'zod';
+import { z, type ZodRawShape } from 'zod';
 import zodToJsonSchema, { type JsonSchema7Type } from 'zod-to-json-schema';
 import { ZSTDDecoder } from 'zstddec';
 
+import {
+  describeTransactionAction,
+  fromTransactionActions,
+  getActionsDeposit,
+  getActionsGas,
+  toTransactionActions,
+  type TransactionAction,
+  TransactionActionsSchema,
+} from './actions';
+import { type AddressBook, createAddressBook } from './address-book';
+import {
+  type ApprovalPolicy,
+  createPendingTransactions,
+  formatTransactionSummary,
+  type TransactionSummary,
+} from './approval';
+import { type AuditLog, AuditQuerySchema } from './audit';
+import {
+  type AuthConfig,
+  type AuthPrincipal,
+  createAuthMiddleware,
+  getApiKeyPrincipal,
+  getPrincipalId,
+  getRequestPrincipal,
+  isAuthEnabled,
+  type KeystoreBinding,
+} from './auth';
+import { DEFAULT_SESSION_IDLE_TIMEOUT, type SERVER_TRANSPORTS } from './config';
+import {
+  type ContractFunction,
+  type ContractToolsConfig,
+  ContractToolsConfigSchema,
+  getContractFunctions,
+  getContractToolName,
+  getContractToolPrefix,
+} from './contract-tools';
+import { type DryRunTransaction, dryRunTransaction } from './dry-run';
+import { InMemoryEventStore } from './event-store';
+import {
+  ARGS_ENCODINGS,
+  encodeFunctionArgs,
+  FunctionArgsSchema,
+  getJsonArgs,
+} from './function-args';
+import { openKeystore } from './keystore';
+import {
+  getNetworkFromAccountId,
+  getNetworkIds,
+  type NetworkContracts,
+} from './network';
+import {
+  formatOutcomeSummary,
+  formatTransactionStatus,
+  TransactionViewSchema,
+} from './outcome';
+import {
+  formatTokenAmount,
+  NEAR_DECIMALS,
+  NEAR_TOKEN,
+  type Spend,
+  type SpendingPolicy,
+  type SpendingReservation,
+} from './policy';
+import { decodeSignedDelegate, type RelayerPolicy } from './relayer';
+import { createRpcProviders, type RpcConfig, type RpcProviders } from './rpc';
+import {
+  createSigningQueue,
+  isFailedOutcome,
+  type SigningQueue,
+} from './signing-queue';
+import {
+  BorshSchemaSchema,
+  decodeStateKey,
+  decodeStateValue,
+  STATE_VALUE_ENCODINGS,
+} from './state';
+import { matchesToolPatterns, type ToolFilter } from './tool-filter';
 import {
   curvePrefixToKeyType,
   DEFAULT_GAS,
@@ -53,16 +140,13 @@ import {
   searchFungibleTokens,
   stringify_bigint,
 } from './utils';
-
-const getNetworkFromAccountId = (accountId: string): Result<string, Error> => {
-  if (accountId.endsWith('.near')) {
-    return { ok: true, value: 'mainnet' };
-  }
-  if (accountId.endsWith('.testnet')) {
-    return { ok: true, value: 'testnet' };
-  }
-  return { ok: false, error: new Error('Invalid account id') };
-};
+import {
+  EMPTY_CODE_HASH,
+  getCodeHash,
+  getWasmMethods,
+  inspectWasm,
+  SOURCE_METADATA_METHOD,
+} from './wasm';
 
 const getAccount = async (
   accountId: string,
@@ -82,10 +166,17 @@ const getAccount = async (
   }
 };
 
+// the balance a deleted account sends to its beneficiary, which includes
+// the balance covering its storage
+const getDeletedBalance = async (account: Account) => {
+  const balance = await account.getAccountBalance();
+  return BigInt(balance.total) - BigInt(balance.staked);
+};
+
 const getAccountKeyPair = async (
   accountId: string,
   networkId: string,
-  keystore: UnencryptedFileSystemKeyStore,
+  keystore: KeyStore,
 ): Promise<Result<KeyPair, Error>> => {
   try {
     const keyPair = await keystore.getKey(networkId, accountId);
@@ -98,7 +189,7 @@ const getAccountKeyPair = async (
 const getAccountSigner = async (
   accountId: string,
   networkId: string,
-  keystore: UnencryptedFileSystemKeyStore,
+  keystore: KeyStore,
 ): Promise<Result<MessageSigner, Error>> => {
   try {
     return {
@@ -150,59 +241,37 @@ export const getFungibleTokenContractMetadataResult = async (
   }
 };
 
+const getContractCode = async (
+  contractAccountId: string,
+  connection: Near,
+): Promise<Result<Buffer, Error>> => {
+  try {
+    const view_code =
+      await connection.connection.provider.query<ContractCodeView>({
+        account_id: contractAccountId,
+        finality: 'final',
+        request_type: 'view_code',
+      });
+
+    // Decode the base64 contract code
+    return { ok: true, value: Buffer.from(view_code.code_base64, 'base64') };
+  } catch (e) {
+    return { ok: false, error: new Error(e as string) };
+  }
+};
+
 const getContractMethods = async (
   contractAccountId: string,
   connection: Near,
 ): Promise<Result<string[], Error>> => {
-  const contractCodeResult: Result<string, Error> = await (async () => {
-    try {
-      const view_code =
-        await connection.connection.provider.query<ContractCodeView>({
-          account_id: contractAccountId,
-          finality: 'final',
-          request_type: 'view_code',
-        });
-
-      return {
-        ok: true,
-        value: view_code.code_base64,
-      };
-    } catch (e) {
-      return { ok: false, error: new Error(e as string) };
-    }
-  })();
+  const contractCodeResult = await getContractCode(
+    contractAccountId,
+    connection,
+  );
   if (!contractCodeResult.ok) {
     return contractCodeResult;
   }
-
-  // Decode the base64 contract code
-  const contractCodeBase64 = contractCodeResult.value;
-  const contractCodeBuffer = Buffer.from(contractCodeBase64, 'base64');
-
-  // Parse the contract code using WebAssembly
-  const contractMethodsResult: Result<string[], Error> = await (async () => {
-    try {
-      const wasmModule = await WebAssembly.compile(contractCodeBuffer);
-      const exports = WebAssembly.Module.exports(wasmModule)
-        .filter((exp) => exp.kind === 'function')
-        .map((exp) => exp.name);
-      return {
-        ok: true,
-        value: exports,
-      };
-    } catch (e) {
-      return {
-        ok: false,
-        error: new Error(
-          `Failed to parse WebAssembly: ${e instanceof Error ? e.message : String(e)}`,
-        ),
-      };
-    }
-  })();
-  if (!contractMethodsResult.ok) {
-    return contractMethodsResult;
-  }
-  return { ok: true, value: contractMethodsResult.value };
+  return getWasmMethods(contractCodeResult.value);
 };
 
 const getContractABI = async (
@@ -231,6 +300,39 @@ const getContractABI = async (
   }
 };
 
+// the functions of the ABI of a contract that can be called as tools
+const fetchContractFunctions = async (
+  rpc: RpcProviders,
+  contractId: string,
+  networkId: string,
+  methods?: string[],
+): Promise<Result<ContractFunction[], Error>> => {
+  const connection = await rpc.connect(networkId);
+  const accountResult = await getAccount(contractId, connection);
+  if (!accountResult.ok) {
+    return accountResult;
+  }
+  const abiResult = await getContractABI(accountResult.value, contractId);
+  if (!abiResult.ok) {
+    return {
+      ok: false,
+      error: new Error(
+        `Failed to read the ABI embedded in ${contractId}: ${abiResult.error.message}`,
+      ),
+    };
+  }
+  const functions = getContractFunctions(abiResult.value, methods);
+  if (functions.length === 0) {
+    return {
+      ok: false,
+      error: new Error(
+        `No function of the ABI of ${contractId} can be called as a tool`,
+      ),
+    };
+  }
+  return { ok: true, value: functions };
+};
+
 type TokenMetadata = {
   id: string;
   metadata: FungibleTokenMetadata;
@@ -306,11 +408,13 @@ export const refFinanceGetEstimate = async (
   }
 };
 
+type RefConfig = ReturnType<typeof refGetConfig>;
+
 export const refFinanceGetPoolsInfo = async (
   connection: Near,
+  refConfig: RefConfig = refGetConfig(connection.connection.networkId),
 ): Promise<Result<Pool[], Error>> => {
   try {
-    const refConfig = refGetConfig(connection.connection.networkId);
     const refAccount = await connection.account(refConfig.REF_FI_CONTRACT_ID);
 
     // get the total number of pools
@@ -354,10 +458,9 @@ export const refFinanceGetPoolsInfo = async (
 const refFinanceGetPoolFromId = async (
   connection: Near,
   poolId: number,
+  refConfig: RefConfig = refGetConfig(connection.connection.networkId),
 ): Promise<Result<Pool, Error>> => {
   try {
-    const network = connection.connection.networkId;
-    const refConfig = refGetConfig(network);
     const refAccount = await connection.account(refConfig.REF_FI_CONTRACT_ID);
 
     const contractResult = (await refAccount.viewFunction({
@@ -381,26 +484,32 @@ export const executeRefSwap = async (
   tokenIn: Account,
   tokenAmountIn: string,
   actions: RefSwapByOutputAction[],
-): Promise<Result<object, Error>> => {
+  refConfig: RefConfig = refGetConfig(connection.connection.networkId),
+  gas: bigint = DEFAULT_GAS,
+  signingQueue: SigningQueue = createSigningQueue(),
+): Promise<Result<FinalExecutionOutcome, Error>> => {
   try {
     if (actions.length === 0) throw new Error('No actions to execute');
-    const network = connection.connection.networkId;
-    const refConfig = refGetConfig(network);
     const signer = await connection.account(accountId);
 
-    const swapResult = await signer.functionCall({
-      contractId: tokenIn.accountId,
-      methodName: 'ft_transfer_call',
-      args: {
-        receiver_id: refConfig.REF_FI_CONTRACT_ID,
-        amount: tokenAmountIn,
-        msg: JSON.stringify({
-          actions,
-        }),
-      },
-      gas: DEFAULT_GAS,
-      attachedDeposit: NearToken.parse_yocto_near('1').as_yocto_near(),
-    });
+    const swapResult = await signingQueue.signAndSendTransaction(
+      signer,
+      tokenIn.accountId,
+      [
+        transactions.functionCall(
+          'ft_transfer_call',
+          {
+            receiver_id: refConfig.REF_FI_CONTRACT_ID,
+            amount: tokenAmountIn,
+            msg: JSON.stringify({
+              actions,
+            }),
+          },
+          gas,
+          NearToken.parse_yocto_near('1').as_yocto_near(),
+        ),
+      ],
+    );
 
     return { ok: true, value: swapResult };
   } catch (error) {
@@ -408,8 +517,369 @@ export const executeRefSwap = async (
   }
 };
 
-export const createMcpServer = async (keyDir: string) => {
-  const keystore = new UnencryptedFileSystemKeyStore(keyDir);
+// Tools that neither sign, broadcast nor modify the keystore. New tools are
+// hidden in read-only mode until they are listed here.
+export const READ_ONLY_TOOLS = [
+  'system_list_local_keypairs',
+  'account_view_account_summary',
+  'search_near_fungible_tokens',
+  'account_verify_signature',
+  'account_list_access_keys',
+  'address_book_list_contacts',
+  'audit_query',
+  'transaction_get_status',
+  'contract_view_functions',
+  'contract_inspect_wasm',
+  'contract_view_state',
+  'contract_get_function_args',
+  'contract_register',
+  'contract_unregister',
+  'contract_call_raw_function_as_read_only',
+  'ref_finance_get_pools',
+  'ref_finance_get_swap_estimate',
+];
+
+// Tools that may sign or broadcast a transaction, recorded in the audit log
+export const AUDITED_TOOLS = [
+  'account_create_account',
+  'account_delete_account',
+  'account_add_access_key',
+  'account_delete_access_keys',
+  'tokens_send_near',
+  'tokens_send_ft',
+  'contract_call_raw_function',
+  'contract_deploy',
+  'ref_finance_execute_swap',
+  'transaction_send_batch',
+  'transaction_sign',
+  'transaction_broadcast',
+  'transaction_sign_delegate',
+  'transaction_relay_delegate',
+  'transaction_approve',
+  'transaction_reject',
+];
+
+// Tools that only work on files of the server, left out of the sessions
+// that have no access to the server's files
+const FILE_TOOLS = ['account_export_account'];
+
+type DelegateAction = Parameters<typeof transactions.encodeDelegateAction>[0];
+
+// the tools doing what an action of a batch does, for the approval policy
+const BATCH_ACTION_TOOLS: Record<TransactionAction['type'], string[]> = {
+  Transfer: ['tokens_send_near'],
+  FunctionCall: ['contract_call_raw_function'],
+  AddKey: ['account_add_access_key'],
+  DeleteKey: ['account_delete_access_keys'],
+  CreateAccount: ['account_create_account'],
+  DeployContract: ['contract_deploy'],
+  Stake: [],
+  DeleteAccount: ['account_delete_account'],
+};
+
+export type ContractTools = ContractToolsConfig & {
+  functions?: ContractFunction[];
+};
+
+export type CreateMcpServerOptions = {
+  // the tools to expose, all tools are exposed when omitted
+  toolFilter?: ToolFilter;
+  // only expose the read-only tools
+  readOnly?: boolean;
+  // RPC providers of the networks, the public endpoints when omitted
+  rpc?: RpcProviders;
+  // the network of tool calls without a network id, mainnet when omitted
+  defaultNetwork?: string;
+  // gas attached to function calls
+  defaultGas?: bigint;
+  // contract ids by network, overriding the built-in ones
+  contracts?: Record<string, NetworkContracts>;
+  // limits checked before signing, shared by every server of the process
+  spendingPolicy?: SpendingPolicy;
+  // contacts accepted instead of account ids, and the receiver allowlist
+  addressBook?: AddressBook;
+  // transactions requiring a human approval before they are signed
+  approvalPolicy?: ApprovalPolicy;
+  // where the calls of the audited tools are recorded
+  auditLog?: AuditLog;
+  // the delegate actions sponsored by transaction_relay_delegate, none
+  // when omitted
+  relayerPolicy?: RelayerPolicy;
+  // hands out the nonces of the signing keys, shared by every server of
+  // the process so concurrent sessions do not reuse a nonce
+  signingQueue?: SigningQueue;
+  // contracts whose ABI functions are registered as tools at startup, with
+  // the functions of their ABI when they were already fetched
+  contractTools?: ContractTools[];
+  // the authenticated principal of the session, recorded in the audit log
+  principal?: string;
+  // the directory that the files read and written by tools must be in,
+  // e.g. the keystore directory of a principal. No file can be read nor
+  // written when false, and any file when omitted.
+  fileRoot?: string | false;
+};
+
+export const createMcpServer = async (
+  keyDirOrKeystore: string | KeyStore,
+  options: CreateMcpServerOptions = {},
+) => {
+  const keystore =
+    typeof keyDirOrKeystore === 'string'
+      ? new UnencryptedFileSystemKeyStore(keyDirOrKeystore)
+      : keyDirOrKeystore;
+  const rpc = options.rpc ?? createRpcProviders();
+  const networkIds = getNetworkIds(rpc.networks);
+  const defaultNetwork = options.defaultNetwork ?? 'mainnet';
+  if (!networkIds.includes(defaultNetwork)) {
+    throw new Error(`Unknown default network ${defaultNetwork}`);
+  }
+  const networkIdSchema = z.enum(networkIds);
+  const defaultGas = options.defaultGas ?? DEFAULT_GAS;
+  const signingQueue = options.signingQueue ?? createSigningQueue();
+  const getNetworkConfig = (networkId: string) =>
+    refGetConfig(networkId, rpc.networks, options.contracts);
+
+  // spends are only limited when a spending policy is configured
+  const reserveSpends = async (
+    spends: Spend[],
+  ): Promise<Result<SpendingReservation, Error>> => {
+    const reservations: SpendingReservation[] = [];
+    const release = async () => {
+      await Promise.all(
+        reservations.map((reservation) => reservation.release()),
+      );
+    };
+    for (const spend of options.spendingPolicy ? spends : []) {
+      const reservationResult = await options.spendingPolicy!.reserve(spend);
+      if (!reservationResult.ok) {
+        await release();
+        return reservationResult;
+      }
+      reservations.push(reservationResult.value);
+    }
+    return { ok: true, value: { release } };
+  };
+  const reserveSpend = (spend: Spend) => reserveSpends([spend]);
+  const addressBook = options.addressBook ?? createAddressBook();
+  // resolve a contact name, then check the account against the allowlist
+  const resolveReceiver = (
+    networkId: string,
+    nameOrAccountId: string,
+  ): Result<string, Error> => {
+    const accountId = addressBook.resolve(networkId, nameOrAccountId);
+    const receiverResult = addressBook.checkReceiver(networkId, accountId);
+    if (!receiverResult.ok) {
+      return receiverResult;
+    }
+    return { ok: true, value: accountId };
+  };
+  // confine the file paths of tool calls to the file root, so a remote
+  // session can never read the keys of another tenant or of the server
+  const { fileRoot } = options;
+  const resolveFilePath = (filePath: string): Result<string, Error> => {
+    if (fileRoot === false) {
+      return {
+        ok: false,
+        error: new Error('Files of the server cannot be used in this session'),
+      };
+    }
+    if (fileRoot === undefined) {
+      return { ok: true, value: filePath };
+    }
+    const root = path.resolve(fileRoot);
+    const resolved = path.resolve(root, filePath);
+    const relative = path.relative(root, resolved);
+    if (
+      relative === '' ||
+      relative === '..' ||
+      relative.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relative)
+    ) {
+      return {
+        ok: false,
+        error: new Error(
+          `${filePath} is outside of the directory of this session`,
+        ),
+      };
+    }
+    return { ok: true, value: resolved };
+  };
+  // token transfers made through a function call count towards the limits
+  // of the token, and cannot bypass the receiver allowlist
+  const getTokenTransferSpend = async (
+    connection: Near,
+    networkId: string,
+    signerAccountId: string,
+    contractId: string,
+    methodName: string,
+    args: Record<string, unknown>,
+  ): Promise<Result<Spend | undefined, Error>> => {
+    if (!['ft_transfer', 'ft_transfer_call'].includes(methodName)) {
+      return { ok: true, value: undefined };
+    }
+    if (typeof args.receiver_id === 'string') {
+      const receiverResult = addressBook.checkReceiver(
+        networkId,
+        args.receiver_id,
+      );
+      if (!receiverResult.ok) {
+        return receiverResult;
+      }
+    }
+    if (typeof args.amount !== 'string' || !/^\d+$/.test(args.amount)) {
+      return { ok: true, value: undefined };
+    }
+    const metadataResult = await getFungibleTokenContractMetadataResult(
+      contractId,
+      connection,
+    );
+    if (!metadataResult.ok) {
+      return metadataResult;
+    }
+    return {
+      ok: true,
+      value: {
+        accountId: signerAccountId,
+        networkId,
+        token: contractId,
+        amount: BigInt(args.amount),
+        decimals: metadataResult.value.decimals,
+        symbol: metadataResult.value.symbol,
+      },
+    };
+  };
+  type PreparedBatch = {
+    receiverAccountId: string;
+    actions: TransactionAction[];
+    nearActions: transactions.Action[];
+    spends: Spend[];
+    summary: Omit<TransactionSummary, 'toolName'>;
+    // the tools whose approval rules apply to the batch
+    equivalentTools: string[];
+  };
+  // resolve the contacts of a batch of actions, and check it against the
+  // allowlist and the spending limits, before it is signed
+  const prepareBatch = async (
+    connection: Near,
+    networkId: string,
+    signerAccountId: string,
+    nameOrReceiverAccountId: string,
+    batchActions: TransactionAction[],
+  ): Promise<Result<PreparedBatch, Error>> => {
+    const receiverAccountId = addressBook.resolve(
+      networkId,
+      nameOrReceiverAccountId,
+    );
+    if (batchActions.some((action) => action.type === 'Transfer')) {
+      const receiverResult = addressBook.checkReceiver(
+        networkId,
+        receiverAccountId,
+      );
+      if (!receiverResult.ok) {
+        return receiverResult;
+      }
+    }
+    const actions: TransactionAction[] = [];
+    for (const action of batchActions) {
+      if (action.type !== 'DeleteAccount') {
+        actions.push(action);
+        continue;
+      }
+      const beneficiaryResult = resolveReceiver(
+        networkId,
+        action.beneficiaryId,
+      );
+      if (!beneficiaryResult.ok) {
+        return beneficiaryResult;
+      }
+      actions.push({ ...action, beneficiaryId: beneficiaryResult.value });
+    }
+    const nearActionsResult = toTransactionActions(actions, defaultGas);
+    if (!nearActionsResult.ok) {
+      return nearActionsResult;
+    }
+
+    const deleteAction = actions.find(
+      (action) => action.type === 'DeleteAccount',
+    );
+    // deleting the signer sends its whole remaining balance away
+    const deletesSigner =
+      deleteAction !== undefined && receiverAccountId === signerAccountId;
+    const nearAmountResult: Result<bigint, Error> = await (async () => {
+      if (!deletesSigner) {
+        return { ok: true, value: getActionsDeposit(actions) };
+      }
+      try {
+        const account = await connection.account(signerAccountId);
+        return { ok: true, value: await getDeletedBalance(account) };
+      } catch (e) {
+        return { ok: false, error: new Error(e as string) };
+      }
+    })();
+    if (!nearAmountResult.ok) {
+      return nearAmountResult;
+    }
+    const spends: Spend[] = [
+      {
+        accountId: signerAccountId,
+        networkId,
+        token: NEAR_TOKEN,
+        amount: nearAmountResult.value,
+        decimals: NEAR_DECIMALS,
+      },
+    ];
+    for (const action of actions) {
+      if (action.type !== 'FunctionCall') {
+        continue;
+      }
+      const tokenSpendResult = await getTokenTransferSpend(
+        connection,
+        networkId,
+        signerAccountId,
+        receiverAccountId,
+        action.methodName,
+        action.args,
+      );
+      if (!tokenSpendResult.ok) {
+        return tokenSpendResult;
+      }
+      if (tokenSpendResult.value) {
+        spends.push(tokenSpendResult.value);
+      }
+    }
+
+    return {
+      ok: true,
+      value: {
+        receiverAccountId,
+        actions,
+        nearActions: nearActionsResult.value,
+        spends,
+        summary: {
+          networkId,
+          signerAccountId,
+          receiverAccountId,
+          amount: deletesSigner
+            ? `${formatTokenAmount(nearAmountResult.value, NEAR_DECIMALS)} NEAR to ${deleteAction.beneficiaryId}`
+            : undefined,
+          deposit: getActionsDeposit(actions),
+          gas: getActionsGas(actions, defaultGas),
+          details: [
+            'Actions:',
+            ...actions.map(
+              (action, index) =>
+                `${index + 1}. ${describeTransactionAction(action)}`,
+            ),
+          ].join('\n'),
+        },
+        equivalentTools: [
+          ...new Set(
+            actions.flatMap((action) => BATCH_ACTION_TOOLS[action.type]),
+          ),
+        ],
+      },
+    };
+  };
   const mcp = new McpServer(
     {
       name: MCP_SERVER_NAME,
@@ -457,12 +927,247 @@ export const createMcpServer = async (keyDir: string) => {
     `,
     },
   );
+  // the tools of registered contracts are added to the built-in lists
+  const readOnlyTools = new Set(READ_ONLY_TOOLS);
+  const auditedTools = new Set(AUDITED_TOOLS);
+  const { toolFilter, readOnly } = options;
+  const isToolAllowed = (toolName: string) =>
+    (!toolFilter || toolFilter(toolName)) &&
+    (!readOnly || readOnlyTools.has(toolName)) &&
+    (fileRoot !== false || !FILE_TOOLS.includes(toolName));
+
+  // the transactions broadcast to produce a tool result, for the audit log
+  const resultOutcomes = new WeakMap<CallToolResult, FinalExecutionOutcome[]>();
+  const withOutcomes = (
+    result: CallToolResult,
+    ...outcomes: FinalExecutionOutcome[]
+  ) => {
+    resultOutcomes.set(result, outcomes);
+    return result;
+  };
+  const { auditLog } = options;
+  const recordToolCall = async (
+    toolName: string,
+    args: Record<string, unknown>,
+    sessionId: string | undefined,
+    result: CallToolResult,
+  ) => {
+    const outcomes = resultOutcomes.get(result) ?? [];
+    const transactionViews = outcomes.flatMap((outcome) => {
+      const transaction = TransactionViewSchema.safeParse(outcome.transaction);
+      return transaction.success ? [transaction.data] : [];
+    });
+    const text = result.content.find((content) => content.type === 'text');
+    const error =
+      text?.type === 'text' && text.text.startsWith('Error:')
+        ? text.text
+        : undefined;
+    const failed = outcomes.some(isFailedOutcome);
+    const argsSigner = args.signerAccountId ?? args.accountId;
+    const recordResult = await auditLog!.record({
+      timestamp: new Date().toISOString(),
+      sessionId,
+      principal: options.principal,
+      toolName,
+      args: JSON.parse(stringify_bigint(args)) as Record<string, unknown>,
+      networkId:
+        typeof args.networkId === 'string' ? args.networkId : undefined,
+      signerAccountId:
+        transactionViews[0]?.signer_id ??
+        (typeof argsSigner === 'string' ? argsSigner : undefined),
+      publicKey: transactionViews[0]?.public_key,
+      transactionHashes: transactionViews.map(
+        (transaction) => transaction.hash,
+      ),
+      status: failed
+        ? 'failure'
+        : error
+          ? 'error'
+          : outcomes.length > 0
+            ? 'success'
+            : 'not_broadcast',
+      error,
+    });
+    if (!recordResult.ok) {
+      console.error(recordResult.error.message);
+    }
+  };
+  // Tools that are not allowed are never registered, so they are never
+  // listed to a client nor callable. The calls of the tools that may sign
+  // are recorded in the audit log.
+  const registerTool = <Args extends ZodRawShape>(
+    name: string,
+    description: string,
+    paramsSchema: Args,
+    callback: ToolCallback<Args>,
+  ): RegisteredTool | undefined => {
+    if (!isToolAllowed(name)) {
+      return undefined;
+    }
+    if (!auditLog || !auditedTools.has(name)) {
+      return mcp.tool(name, description, paramsSchema, callback);
+    }
+    const audited = (async (args, extra) => {
+      try {
+        const result = await callback(args, extra);
+        await recordToolCall(name, args, extra.sessionId, result);
+        return result;
+      } catch (e) {
+        await recordToolCall(name, args, extra.sessionId, {
+          content: [{ type: 'text', text: `Error: ${String(e)}` }],
+        });
+        throw e;
+      }
+    }) as ToolCallback<Args>;
+    return mcp.tool(name, description, paramsSchema, audited);
+  };
+
+  const elicitApproval = async (
+    summary: TransactionSummary,
+    timeout: number,
+  ): Promise<Result<boolean, Error>> => {
+    try {
+      const result = await mcp.server.elicitInput(
+        {
+          message: `Approve this transaction?\n\n${formatTransactionSummary(summary)}`,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              approve: {
+                type: 'boolean',
+                title: 'Approve',
+                description: 'Sign and broadcast the transaction',
+              },
+            },
+            required: ['approve'],
+          },
+        },
+        { timeout },
+      );
+      return {
+        ok: true,
+        value: result.action === 'accept' && result.content?.approve === true,
+      };
+    } catch (e) {
+      return {
+        ok: false,
+        error: new Error(
+          `Failed to get the transaction approval: ${String(e)}`,
+        ),
+      };
+    }
+  };
+  const pendingTransactions = createPendingTransactions<CallToolResult>(
+    options.approvalPolicy?.timeout ?? 0,
+  );
+  // execute the transaction right away, once approved by the user, or
+  // queue it for transaction_approve when the client cannot elicit.
+  // A transaction doing what other tools do, e.g. a batch deleting an
+  // account, requires approval whenever one of those tools would.
+  const confirmTransaction = async (
+    summary: TransactionSummary,
+    spends: Spend[],
+    execute: () => Promise<CallToolResult>,
+    equivalentTools: string[] = [],
+  ): Promise<CallToolResult> => {
+    const { approvalPolicy } = options;
+    if (
+      !approvalPolicy ||
+      ![summary.toolName, ...equivalentTools].some((toolName) =>
+        approvalPolicy.isApprovalRequired(toolName, spends),
+      )
+    ) {
+      return execute();
+    }
+    if (mcp.server.getClientCapabilities()?.elicitation) {
+      const approvalResult = await elicitApproval(
+        summary,
+        approvalPolicy.timeout,
+      );
+      if (!approvalResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${approvalResult.error}` }],
+        };
+      }
+      if (!approvalResult.value) {
+        return {
+          content: [{ type: 'text', text: 'Transaction rejected by the user' }],
+        };
+      }
+      return execute();
+    }
+    const transaction = pendingTransactions.add(summary, execute);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: noLeadingWhitespace`
+          Transaction pending approval: ${transaction.id}
+
+          ${formatTransactionSummary(summary)}
 
-  mcp.tool(
+          Show this summary to the user. Only once the user approves it, call transaction_approve with the id, otherwise call transaction_reject. The transaction expires at ${new Date(transaction.expiresAt).toISOString()}.`,
+        },
+      ],
+    };
+  };
+  const dryRunSchema = z
+    .boolean()
+    .default(false)
+    .describe(
+      'Build the transaction without signing nor broadcasting it, to preview its actions, gas and fee, and check the balance and access key of the signer. The transaction is returned unsigned: dry runs skip the approval and the spending limits, and a signed one could be submitted to any RPC node without them.',
+    );
+  const dryRun = async (
+    connection: Near,
+    transaction: DryRunTransaction,
+  ): Promise<CallToolResult> => {
+    const dryRunResult = await dryRunTransaction(connection, transaction);
+    if (!dryRunResult.ok) {
+      return {
+        content: [{ type: 'text', text: `Error: ${dryRunResult.error}` }],
+      };
+    }
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Dry run, the transaction was not broadcast: ${stringify_bigint(dryRunResult.value)}`,
+        },
+      ],
+    };
+  };
+  const rawOutcomeSchema = z
+    .boolean()
+    .default(false)
+    .describe(
+      'Return the raw JSON outcome of the transaction instead of its summary.',
+    );
+  const argsEncodingSchema = z
+    .enum(ARGS_ENCODINGS)
+    .default('json')
+    .describe(
+      'How the arguments are encoded: a JSON object, base64 raw bytes, or a value serialized as borsh.',
+    );
+  const argsBorshSchemaSchema = BorshSchemaSchema.optional().describe(
+    'The borsh-js schema of the arguments, required when they are encoded as borsh.',
+  );
+  const resultBorshSchemaSchema = BorshSchemaSchema.optional().describe(
+    'The borsh-js schema of the result, required when it is decoded as borsh.',
+  );
+  const formatOutcome = (
+    networkId: string,
+    outcome: FinalExecutionOutcome,
+    rawOutcome: boolean,
+  ) =>
+    rawOutcome
+      ? stringify_bigint(outcome)
+      : formatOutcomeSummary(outcome, getNetworkConfig(networkId).explorerUrl);
+
+  registerTool(
     'system_list_local_keypairs',
     'List all NEAR accounts and their keypairs in the local keystore by network.',
     {
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
     },
     async (args, _) => {
       const keyPairs = await keystore.getAccounts(args.networkId);
@@ -483,19 +1188,20 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
     'system_import_account',
     noLeadingWhitespace`
     Import an account into the local keystore.
     This will allow the user to use this account with other tools.
     Remember mainnet accounts are created with a .near suffix,
-    and testnet accounts are created with a .testnet suffix.`,
+    testnet accounts are created with a .testnet suffix, and accounts of
+    custom networks such as localnet are sub-accounts of the network's master account.`,
     {
       args: z.union([
         z.object({
           op: z.literal('import_from_private_key'),
           accountId: z.string(),
-          networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+          networkId: networkIdSchema.default(defaultNetwork),
           privateKey: z
             .string()
             .describe(
@@ -510,16 +1216,18 @@ export const createMcpServer = async (keyDir: string) => {
               The file should be in JSON format and the filename should be something
               like \`<accountId>.<networkId>.json\`.`,
           ),
+          networkId: networkIdSchema
+            .optional()
+            .describe(
+              'The network of the account. Inferred from the account id suffix when omitted.',
+            ),
         }),
       ]),
     },
     async (args, _) => {
       switch (args.args.op) {
         case 'import_from_private_key':
-          const connection = await connect({
-            networkId: args.args.networkId,
-            nodeUrl: getEndpointsByNetwork(args.args.networkId)[0]!,
-          });
+          const connection = await rpc.connect(args.args.networkId);
 
           const serializedPrivateKeyResult: Result<KeyPair, Error> = (() => {
             if (args.args.privateKey) {
@@ -594,7 +1302,15 @@ export const createMcpServer = async (keyDir: string) => {
             ],
           };
         case 'import_from_file':
-          const filePath = args.args.filePath;
+          const filePathResult = resolveFilePath(args.args.filePath);
+          if (!filePathResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${filePathResult.error}` },
+              ],
+            };
+          }
+          const filePath = filePathResult.value;
           const readKeyFileResult: Result<[string, KeyPair], Error> =
             await (async () => {
               try {
@@ -615,8 +1331,9 @@ export const createMcpServer = async (keyDir: string) => {
           }
           const [accountId, keypair] = readKeyFileResult.value;
 
-          const networkIdResult: Result<string, Error> =
-            getNetworkFromAccountId(accountId);
+          const networkIdResult: Result<string, Error> = args.args.networkId
+            ? { ok: true, value: args.args.networkId }
+            : getNetworkFromAccountId(accountId, rpc.networks);
           if (!networkIdResult.ok) {
             return {
               content: [
@@ -629,10 +1346,7 @@ export const createMcpServer = async (keyDir: string) => {
           }
           const networkId = networkIdResult.value;
 
-          const fromFileConnection = await connect({
-            networkId,
-            nodeUrl: getEndpointsByNetwork(networkId)[0]!,
-          });
+          const fromFileConnection = await rpc.connect(networkId);
           const fromFileAccountResult: Result<Account, Error> =
             await getAccount(accountId, fromFileConnection);
           if (!fromFileAccountResult.ok) {
@@ -680,7 +1394,7 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
     'system_remove_local_account',
     noLeadingWhitespace`
     Removes a local NEAR account from the local keystore. Once removed, the account
@@ -690,7 +1404,7 @@ export const createMcpServer = async (keyDir: string) => {
       accountId: z
         .string()
         .describe('The local account id to remove from the local keystore.'),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
     },
     async (args, _) => {
       const accountRemovalResult: Result<void, Error> = await (async () => {
@@ -717,21 +1431,18 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
     'account_view_account_summary',
     noLeadingWhitespace`
     Get summary information about any NEAR account. This calls a
     public RPC endpoint to get this information.`,
     {
       accountId: z.string(),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
     },
     async (args, _) => {
       console.log('args', args);
-      const connection = await connect({
-        networkId: args.networkId,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+      const connection = await rpc.connect(args.networkId);
       const accountResult: Result<Account, Error> = await getAccount(
         args.accountId,
         connection,
@@ -766,7 +1477,7 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
     'search_near_fungible_tokens',
     noLeadingWhitespace`
     Search for fungible token contract information for the NEAR blockchain, based on search terms.
@@ -855,25 +1566,30 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
     'account_export_account',
     noLeadingWhitespace`
     Export a NEAR account from the local keystore to a file.`,
     {
       accountId: z.string(),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
       filePath: z
         .string()
         .optional()
         .describe(
-          'The path to the file to write the account to. If not provided, the account will be written to the current working directory.',
+          'The path to the file to write the account to. If not provided, the account will be written to the current working directory. Remote sessions write to the keystore directory of their principal.',
         ),
     },
     async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+      const filePathResult = resolveFilePath(
+        args.filePath || `${args.accountId}.${args.networkId}.json`,
+      );
+      if (!filePathResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${filePathResult.error}` }],
+        };
+      }
+      const connection = await rpc.connect(args.networkId);
       const accountResult: Result<Account, Error> = await getAccount(
         args.accountId,
         connection,
@@ -903,9 +1619,10 @@ export const createMcpServer = async (keyDir: string) => {
             public_key: keypair.getPublicKey().toString(),
             private_key: keypair.toString(),
           };
-          const filePath =
-            args.filePath || `${args.accountId}.${args.networkId}.json`;
-          await writeFile(filePath, JSON.stringify(filePayload, null, 2));
+          await writeFile(
+            filePathResult.value,
+            JSON.stringify(filePayload, null, 2),
+          );
           return { ok: true, value: undefined };
         } catch (e) {
           return { ok: false, error: new Error(e as string) };
@@ -930,7 +1647,7 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
     'account_sign_data',
     noLeadingWhitespace`
     Cryptographically sign a piece of data with a local account's private key, then encode the result with the specified encoding.
@@ -941,7 +1658,7 @@ export const createMcpServer = async (keyDir: string) => {
         .describe(
           'The account id of the account that will sign the data. This account must be in the local keystore.',
         ),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
       data: z.string().describe('The data to sign as a string.'),
       signatureEncoding: z
         .enum(['base58', 'base64'])
@@ -1007,7 +1724,7 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
     'account_verify_signature',
     noLeadingWhitespace`
     Cryptographically verify a signed piece of data against a NEAR account's public key.`,
@@ -1017,7 +1734,7 @@ export const createMcpServer = async (keyDir: string) => {
         .describe(
           'The account id to verify the signature against and search for a valid public key.',
         ),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
       data: z.string().describe('The data to verify.'),
       signatureArgs: z
         .object({
@@ -1035,10 +1752,7 @@ export const createMcpServer = async (keyDir: string) => {
         .describe('The signature arguments to verify.'),
     },
     async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+      const connection = await rpc.connect(args.networkId);
       const accountResult: Result<Account, Error> = await getAccount(
         args.accountId,
         connection,
@@ -1139,7 +1853,7 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
     'account_create_implicit_account',
     noLeadingWhitespace`
     Create an implicit account on the NEAR blockchain. An implicit account is a new random keypair that is not associated with an account ID.
@@ -1148,7 +1862,7 @@ export const createMcpServer = async (keyDir: string) => {
     Creating implicit accounts is useful for adding new access keys to an existing account.
     `,
     {
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
     },
     async (args, _) => {
       const keyPair = KeyPair.fromRandom('ed25519');
@@ -1190,12 +1904,13 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
     'account_create_account',
     noLeadingWhitespace`
     Create a new NEAR account with a new account ID. The initial balance of this account will be funded by the account that is calling this tool.
     This account will be created with a random public key. If no account ID is provided, a random one will be generated.
-    Ensure that mainnet accounts are created with a .near suffix, and testnet accounts are created with a .testnet suffix.`,
+    Ensure that mainnet accounts are created with a .near suffix, and testnet accounts are created with a .testnet suffix.
+    On custom networks such as localnet, accounts are created as sub-accounts of the signer, e.g. the network's master account.`,
     {
       signerAccountId: z
         .string()
@@ -1211,11 +1926,10 @@ export const createMcpServer = async (keyDir: string) => {
         .describe(
           'The initial balance of the new account in NEAR. If not provided, the new account will be funded with 0.1 NEAR.',
         ),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
+      rawOutcome: rawOutcomeSchema,
     },
     async (args, _) => {
-      const rpcProvider = getProviderByNetwork(args.networkId);
-
       const signer: Result<MessageSigner, Error> = await getAccountSigner(
         args.signerAccountId,
         args.networkId,
@@ -1232,72 +1946,144 @@ export const createMcpServer = async (keyDir: string) => {
         };
       }
 
+      const isCustomNetwork = args.networkId in rpc.networks;
       const newAccountId = (() => {
         if (!args.newAccountId) {
           const randomChars = Math.random().toString(36).substring(2, 10);
-          const suffix = args.networkId === 'mainnet' ? '.near' : '.testnet';
+          // custom networks have no registrar, new accounts are sub-accounts
+          const suffix = isCustomNetwork
+            ? `.${args.signerAccountId}`
+            : args.networkId === 'mainnet'
+              ? '.near'
+              : '.testnet';
           return randomChars + suffix;
         }
         return args.newAccountId;
       })();
-      const keyPair = KeyPair.fromRandom('ed25519');
-      await keystore.setKey(args.networkId, newAccountId, keyPair);
-
-      const createAccountResult: Result<
+      const spend: Spend = {
+        accountId: args.signerAccountId,
+        networkId: args.networkId,
+        token: NEAR_TOKEN,
+        amount: NearToken.parse_near(args.initialBalance).as_yocto_near(),
+        decimals: NEAR_DECIMALS,
+      };
+      return confirmTransaction(
         {
-          outcome: FinalExecutionOutcome;
-          result: SerializedReturnValue;
+          toolName: 'account_create_account',
+          networkId: args.networkId,
+          signerAccountId: args.signerAccountId,
+          receiverAccountId: newAccountId,
+          amount: `${args.initialBalance} NEAR`,
+          details: 'Creates the account with a new key stored in the keystore',
         },
-        Error
-      > = await (async () => {
-        try {
-          return {
-            ok: true,
-            value: await createTopLevelAccount({
-              account: args.signerAccountId,
-              contract: args.networkId,
-              newAccount: newAccountId,
-              newPublicKey: keyPair.getPublicKey().toString(),
-              initialBalance: NearToken.parse_near(
-                args.initialBalance,
-              ).as_yocto_near(),
-              deps: { rpcProvider, signer: signer.value },
-            }),
-          };
-        } catch (e) {
-          return { ok: false, error: new Error(e as string) };
-        }
-      })();
-      if (!createAccountResult.ok) {
-        await keystore.removeKey(args.networkId, newAccountId);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${createAccountResult.error}\n\nFailed to create account ${newAccountId}`,
-            },
-          ],
-        };
-      }
+        [spend],
+        async () => {
+          const reservationResult = await reserveSpend(spend);
+          if (!reservationResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${reservationResult.error}` },
+              ],
+            };
+          }
+          const keyPair = KeyPair.fromRandom('ed25519');
+          await keystore.setKey(args.networkId, newAccountId, keyPair);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Account creation result: ${stringify_bigint(
-              createAccountResult.value,
-            )}`,
-          },
-          {
-            type: 'text',
-            text: `Account created: ${newAccountId}`,
-          },
-        ],
-      };
+          const createAccountResult: Result<FinalExecutionOutcome, Error> =
+            await (async () => {
+              try {
+                const connection = await rpc.connect(args.networkId, keystore);
+                const account = await connection.account(args.signerAccountId);
+                const initialBalance = NearToken.parse_near(
+                  args.initialBalance,
+                ).as_yocto_near();
+                if (isCustomNetwork) {
+                  return {
+                    ok: true,
+                    value: await signingQueue.signAndSendTransaction(
+                      account,
+                      newAccountId,
+                      [
+                        transactions.createAccount(),
+                        transactions.transfer(initialBalance),
+                        transactions.addKey(
+                          keyPair.getPublicKey(),
+                          transactions.fullAccessKey(),
+                        ),
+                      ],
+                    ),
+                  };
+                }
+                // top-level accounts are created by the registrar of the network
+                return {
+                  ok: true,
+                  value: await signingQueue.signAndSendTransaction(
+                    account,
+                    args.networkId,
+                    [
+                      transactions.functionCall(
+                        'create_account',
+                        {
+                          new_account_id: newAccountId,
+                          new_public_key: keyPair.getPublicKey().toString(),
+                        },
+                        defaultGas,
+                        initialBalance,
+                      ),
+                    ],
+                  ),
+                };
+              } catch (e) {
+                return { ok: false, error: new Error(e as string) };
+              }
+            })();
+          if (!createAccountResult.ok) {
+            await reservationResult.value.release();
+            await keystore.removeKey(args.networkId, newAccountId);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: ${createAccountResult.error}\n\nFailed to create account ${newAccountId}`,
+                },
+              ],
+            };
+          }
+          // the deposits of a failed transaction are refunded
+          if (isFailedOutcome(createAccountResult.value)) {
+            await reservationResult.value.release();
+            await keystore.removeKey(args.networkId, newAccountId);
+          }
+
+          return withOutcomes(
+            {
+              content: [
+                {
+                  type: 'text',
+                  text: formatOutcome(
+                    args.networkId,
+                    createAccountResult.value,
+                    args.rawOutcome,
+                  ),
+                },
+                ...(isFailedOutcome(createAccountResult.value)
+                  ? []
+                  : [
+                      {
+                        type: 'text' as const,
+                        text: `Account created: ${newAccountId}`,
+                      },
+                    ]),
+              ],
+            },
+            createAccountResult.value,
+          );
+        },
+      );
     },
   );
 
-  mcp.tool(
+  registerTool(
     'account_delete_account',
     noLeadingWhitespace`
     Delete an account from the NEAR blockchain. This will also remove the account from the local keystore and any associated keypair.`,
@@ -1306,16 +2092,25 @@ export const createMcpServer = async (keyDir: string) => {
       beneficiaryAccountId: z
         .string()
         .describe(
-          'The account that will receive the remaining balance of the deleted account.',
+          'The account that will receive the remaining balance of the deleted account, or the name of a contact of the address book.',
         ),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
+      rawOutcome: rawOutcomeSchema,
     },
     async (args, _) => {
-      const rpcProvider = getProviderByNetwork(args.networkId);
-      const connection = await connect({
-        networkId: args.networkId,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+      const beneficiaryResult = resolveReceiver(
+        args.networkId,
+        args.beneficiaryAccountId,
+      );
+      if (!beneficiaryResult.ok) {
+        return {
+          content: [
+            { type: 'text', text: `Error: ${beneficiaryResult.error}` },
+          ],
+        };
+      }
+      const beneficiaryAccountId = beneficiaryResult.value;
+      const connection = await rpc.connect(args.networkId, keystore);
 
       // ensure both account and beneficiary account exist
       const accountIdResult: Result<Account, Error> = await getAccount(
@@ -1328,7 +2123,7 @@ export const createMcpServer = async (keyDir: string) => {
         };
       }
       const beneficiaryAccountIdResult: Result<Account, Error> =
-        await getAccount(args.beneficiaryAccountId, connection);
+        await getAccount(beneficiaryAccountId, connection);
       if (!beneficiaryAccountIdResult.ok) {
         return {
           content: [
@@ -1356,67 +2151,103 @@ export const createMcpServer = async (keyDir: string) => {
         };
       }
 
-      const deleteAccountResult: Result<
+      // the beneficiary receives the whole remaining balance
+      const spend: Spend = {
+        accountId: args.accountId,
+        networkId: args.networkId,
+        token: NEAR_TOKEN,
+        amount: await getDeletedBalance(accountIdResult.value),
+        decimals: NEAR_DECIMALS,
+      };
+      return confirmTransaction(
         {
-          outcome: FinalExecutionOutcome;
-          result: SerializedReturnValue;
+          toolName: 'account_delete_account',
+          networkId: args.networkId,
+          signerAccountId: args.accountId,
+          receiverAccountId: args.accountId,
+          amount: `${formatTokenAmount(spend.amount, NEAR_DECIMALS)} NEAR to ${beneficiaryAccountId}`,
+          details: `Deletes ${args.accountId}`,
         },
-        Error
-      > = await (async () => {
-        try {
-          return {
-            ok: true,
-            value: await deleteAccount({
-              account: args.accountId,
-              beneficiaryId: args.beneficiaryAccountId,
-              deps: { rpcProvider, signer: signer.value },
-            }),
-          };
-        } catch (e) {
-          return { ok: false, error: new Error(e as string) };
-        }
-      })();
-      if (!deleteAccountResult.ok) {
-        return {
-          content: [
+        [spend],
+        async () => {
+          const reservationResult = await reserveSpend(spend);
+          if (!reservationResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${reservationResult.error}` },
+              ],
+            };
+          }
+
+          const deleteAccountResult: Result<FinalExecutionOutcome, Error> =
+            await (async () => {
+              try {
+                return {
+                  ok: true,
+                  value: await signingQueue.signAndSendTransaction(
+                    accountIdResult.value,
+                    args.accountId,
+                    [transactions.deleteAccount(beneficiaryAccountId)],
+                  ),
+                };
+              } catch (e) {
+                return { ok: false, error: new Error(e as string) };
+              }
+            })();
+          if (!deleteAccountResult.ok) {
+            await reservationResult.value.release();
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: ${deleteAccountResult.error}\n\nFailed to delete account ${args.accountId}`,
+                },
+              ],
+            };
+          }
+          // the deposits of a failed transaction are refunded
+          if (isFailedOutcome(deleteAccountResult.value)) {
+            await reservationResult.value.release();
+          }
+
+          return withOutcomes(
             {
-              type: 'text',
-              text: `Error: ${deleteAccountResult.error}\n\nFailed to delete account ${args.accountId}`,
+              content: [
+                {
+                  type: 'text',
+                  text: formatOutcome(
+                    args.networkId,
+                    deleteAccountResult.value,
+                    args.rawOutcome,
+                  ),
+                },
+                ...(isFailedOutcome(deleteAccountResult.value)
+                  ? []
+                  : [
+                      {
+                        type: 'text' as const,
+                        text: `Account deleted: ${args.accountId}`,
+                      },
+                    ]),
+              ],
             },
-          ],
-        };
-      }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Account deletion result: ${stringify_bigint(
-              deleteAccountResult.value,
-            )}`,
-          },
-          {
-            type: 'text',
-            text: `Account deleted: ${args.accountId}`,
-          },
-        ],
-      };
+            deleteAccountResult.value,
+          );
+        },
+      );
     },
   );
 
-  mcp.tool(
+  registerTool(
     'account_list_access_keys',
     noLeadingWhitespace`
     List all access keys for an given account.`,
     {
       accountId: z.string(),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
     },
     async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+      const connection = await rpc.connect(args.networkId);
       const accountResult: Result<Account, Error> = await getAccount(
         args.accountId,
         connection,
@@ -1433,14 +2264,14 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
     'account_add_access_key',
     noLeadingWhitespace`
     Add an access key to an account. This can be used to grant full access to an account,
     or allow the specified account to have specific function call access to a contract.`,
     {
       accountId: z.string(),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
       accessKeyArgs: z.object({
         permission: z.union([
           z.object({
@@ -1464,13 +2295,10 @@ export const createMcpServer = async (keyDir: string) => {
           }),
         ]),
       }),
+      rawOutcome: rawOutcomeSchema,
     },
     async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        keyStore: keystore,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+      const connection = await rpc.connect(args.networkId, keystore);
 
       const accountResult: Result<Account, Error> = await getAccount(
         args.accountId,
@@ -1483,87 +2311,126 @@ export const createMcpServer = async (keyDir: string) => {
       }
       const account = accountResult.value;
 
-      const addAccessKeyResult: Result<FinalExecutionOutcome, Error> =
-        await (async () => {
-          try {
-            switch (args.accessKeyArgs.permission.type) {
-              case 'FullAccess':
-                return {
-                  ok: true,
-                  value: await account.addKey(
-                    args.accessKeyArgs.permission.publicKey,
-                  ),
-                };
-              case 'FunctionCall':
-                const allowance =
-                  typeof args.accessKeyArgs.permission.FunctionCall
-                    .allowance === 'number'
-                    ? NearToken.parse_near(
-                        args.accessKeyArgs.permission.FunctionCall.allowance.toString(),
-                      ).as_yocto_near()
-                    : args.accessKeyArgs.permission.FunctionCall.allowance;
-
-                return {
-                  ok: true,
-                  value: await account.addKey(
-                    args.accessKeyArgs.permission.publicKey,
-                    args.accessKeyArgs.permission.FunctionCall.contractId,
-                    args.accessKeyArgs.permission.FunctionCall.methodNames,
-                    allowance,
-                  ),
-                };
-            }
-          } catch (e) {
-            return { ok: false, error: new Error(e as string) };
+      const { permission } = args.accessKeyArgs;
+      return confirmTransaction(
+        {
+          toolName: 'account_add_access_key',
+          networkId: args.networkId,
+          signerAccountId: args.accountId,
+          receiverAccountId: args.accountId,
+          details:
+            permission.type === 'FullAccess'
+              ? `Adds the full access key ${permission.publicKey}`
+              : `Adds the function call key ${permission.publicKey} for ${permission.FunctionCall.contractId}`,
+        },
+        [],
+        async () => {
+          const addAccessKeyResult: Result<FinalExecutionOutcome, Error> =
+            await (async () => {
+              try {
+                switch (args.accessKeyArgs.permission.type) {
+                  case 'FullAccess':
+                    return {
+                      ok: true,
+                      value: await signingQueue.signAndSendTransaction(
+                        account,
+                        args.accountId,
+                        [
+                          transactions.addKey(
+                            PublicKey.from(
+                              args.accessKeyArgs.permission.publicKey,
+                            ),
+                            transactions.fullAccessKey(),
+                          ),
+                        ],
+                      ),
+                    };
+                  case 'FunctionCall':
+                    const allowance =
+                      typeof args.accessKeyArgs.permission.FunctionCall
+                        .allowance === 'number'
+                        ? NearToken.parse_near(
+                            args.accessKeyArgs.permission.FunctionCall.allowance.toString(),
+                          ).as_yocto_near()
+                        : args.accessKeyArgs.permission.FunctionCall.allowance;
+
+                    return {
+                      ok: true,
+                      value: await signingQueue.signAndSendTransaction(
+                        account,
+                        args.accountId,
+                        [
+                          transactions.addKey(
+                            PublicKey.from(
+                              args.accessKeyArgs.permission.publicKey,
+                            ),
+                            transactions.functionCallAccessKey(
+                              args.accessKeyArgs.permission.FunctionCall
+                                .contractId,
+                              args.accessKeyArgs.permission.FunctionCall
+                                .methodNames,
+                              allowance,
+                            ),
+                          ),
+                        ],
+                      ),
+                    };
+                }
+              } catch (e) {
+                return { ok: false, error: new Error(e as string) };
+              }
+            })();
+          if (!addAccessKeyResult.ok) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: ${addAccessKeyResult.error}\n\nFailed to add access key to account ${args.accountId}`,
+                },
+              ],
+            };
           }
-        })();
-      if (!addAccessKeyResult.ok) {
-        return {
-          content: [
+
+          return withOutcomes(
             {
-              type: 'text',
-              text: `Error: ${addAccessKeyResult.error}\n\nFailed to add access key to account ${args.accountId}`,
+              content: [
+                {
+                  type: 'text',
+                  text: formatOutcome(
+                    args.networkId,
+                    addAccessKeyResult.value,
+                    args.rawOutcome,
+                  ),
+                },
+                ...(isFailedOutcome(addAccessKeyResult.value)
+                  ? []
+                  : [
+                      {
+                        type: 'text' as const,
+                        text: `Access key added: ${args.accessKeyArgs.permission.publicKey}`,
+                      },
+                    ]),
+              ],
             },
-          ],
-        };
-      }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Add access key transaction result: ${stringify_bigint({
-              final_execution_status:
-                addAccessKeyResult.value.final_execution_status,
-              status: addAccessKeyResult.value.status,
-              transaction_outcome: addAccessKeyResult.value.transaction_outcome,
-              receipts_outcome: addAccessKeyResult.value.receipts_outcome,
-            })}`,
-          },
-          {
-            type: 'text',
-            text: `Access key added: ${args.accessKeyArgs.permission.publicKey}`,
-          },
-        ],
-      };
+            addAccessKeyResult.value,
+          );
+        },
+      );
     },
   );
 
-  mcp.tool(
+  registerTool(
     'account_delete_access_keys',
     noLeadingWhitespace`
     Delete an access key from an account based on it's public key.`,
     {
       accountId: z.string(),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
       publicKey: z.string(),
+      rawOutcome: rawOutcomeSchema,
     },
     async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        keyStore: keystore,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+      const connection = await rpc.connect(args.networkId, keystore);
       const accountResult: Result<Account, Error> = await getAccount(
         args.accountId,
         connection,
@@ -1584,39 +2451,101 @@ export const createMcpServer = async (keyDir: string) => {
         };
       }
 
-      const deleteAccessKeyResult: Result<FinalExecutionOutcome, Error> =
-        await (async () => {
-          try {
+      return confirmTransaction(
+        {
+          toolName: 'account_delete_access_keys',
+          networkId: args.networkId,
+          signerAccountId: args.accountId,
+          receiverAccountId: args.accountId,
+          details: `Deletes the access key ${args.publicKey}`,
+        },
+        [],
+        async () => {
+          const deleteAccessKeyResult: Result<FinalExecutionOutcome, Error> =
+            await (async () => {
+              try {
+                return {
+                  ok: true,
+                  value: await signingQueue.signAndSendTransaction(
+                    account,
+                    args.accountId,
+                    [
+                      transactions.deleteKey(
+                        PublicKey.from(accessKey.public_key),
+                      ),
+                    ],
+                  ),
+                };
+              } catch (e) {
+                return { ok: false, error: new Error(e as string) };
+              }
+            })();
+          if (!deleteAccessKeyResult.ok) {
             return {
-              ok: true,
-              value: await account.deleteKey(accessKey.public_key),
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: ${deleteAccessKeyResult.error}\n\nFailed to delete access key ${args.publicKey} from account ${args.accountId}`,
+                },
+              ],
             };
-          } catch (e) {
-            return { ok: false, error: new Error(e as string) };
           }
-        })();
-      if (!deleteAccessKeyResult.ok) {
+          return withOutcomes(
+            {
+              content: [
+                {
+                  type: 'text',
+                  text: formatOutcome(
+                    args.networkId,
+                    deleteAccessKeyResult.value,
+                    args.rawOutcome,
+                  ),
+                },
+                ...(isFailedOutcome(deleteAccessKeyResult.value)
+                  ? []
+                  : [
+                      {
+                        type: 'text' as const,
+                        text: `Access key deleted: ${args.publicKey}`,
+                      },
+                    ]),
+              ],
+            },
+            deleteAccessKeyResult.value,
+          );
+        },
+      );
+    },
+  );
+
+  registerTool(
+    'address_book_list_contacts',
+    noLeadingWhitespace`
+    List the contacts of the address book of a network. Tools sending tokens accept
+    the name of a contact instead of a receiver account id. Prefer a contact over
+    guessing the account id of a recipient.`,
+    {
+      networkId: networkIdSchema.default(defaultNetwork),
+    },
+    (args, _) => {
+      const contacts = addressBook.getContacts(args.networkId);
+      if (contacts.length === 0) {
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${deleteAccessKeyResult.error}\n\nFailed to delete access key ${args.publicKey} from account ${args.accountId}`,
+              text: `No contacts in the address book of ${args.networkId}`,
             },
           ],
         };
       }
       return {
-        content: [
-          {
-            type: 'text',
-            text: `Access key deleted: ${args.publicKey}`,
-          },
-        ],
+        content: [{ type: 'text', text: stringify_bigint(contacts) }],
       };
     },
   );
 
-  mcp.tool(
+  registerTool(
     'tokens_send_near',
     noLeadingWhitespace`
     Send NEAR tokens to an account (in NEAR). The signer account
@@ -1628,7 +2557,11 @@ export const createMcpServer = async (keyDir: string) => {
     are in the same network.`,
     {
       signerAccountId: z.string(),
-      receiverAccountId: z.string(),
+      receiverAccountId: z
+        .string()
+        .describe(
+          'The account that will receive the tokens, or the name of a contact of the address book.',
+        ),
       amount: z
         .union([
           z.number().describe('The amount of NEAR tokens (in NEAR)'),
@@ -1636,64 +2569,121 @@ export const createMcpServer = async (keyDir: string) => {
         ])
         .default(NearToken.parse_yocto_near('1').as_near())
         .describe('The amount of NEAR to send in NEAR. e.g. 1.5'),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
+      dryRun: dryRunSchema,
+      rawOutcome: rawOutcomeSchema,
     },
     async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        keyStore: keystore,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
-      const sendResult: Result<FinalExecutionOutcome, Error> =
-        await (async () => {
-          try {
-            const account = await connection.account(args.signerAccountId);
-            const amount =
-              typeof args.amount === 'number'
-                ? NearToken.parse_near(args.amount.toString()).as_yocto_near()
-                : args.amount;
-            const sendMoneyResult = await account.sendMoney(
-              args.receiverAccountId,
-              amount,
-            );
-            return {
-              ok: true,
-              value: sendMoneyResult,
-            };
-          } catch (e) {
-            return { ok: false, error: new Error(e as string) };
-          }
-        })();
-      if (!sendResult.ok) {
+      const receiverResult = resolveReceiver(
+        args.networkId,
+        args.receiverAccountId,
+      );
+      if (!receiverResult.ok) {
         return {
-          content: [{ type: 'text', text: `Error: ${sendResult.error}` }],
+          content: [{ type: 'text', text: `Error: ${receiverResult.error}` }],
         };
       }
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Transaction sent: ${stringify_bigint(sendResult.value)}`,
-          },
-        ],
+      const connection = await rpc.connect(args.networkId, keystore);
+      const amount =
+        typeof args.amount === 'number'
+          ? NearToken.parse_near(args.amount.toString()).as_yocto_near()
+          : args.amount;
+      const spend: Spend = {
+        accountId: args.signerAccountId,
+        networkId: args.networkId,
+        token: NEAR_TOKEN,
+        amount,
+        decimals: NEAR_DECIMALS,
       };
-    },
-  );
-
-  mcp.tool(
-    'tokens_send_ft',
-    noLeadingWhitespace`
-    Send Fungible Tokens (FT) like USDC native, USDT, WNEAR, etc. based on the NEP-141 and NEP-148 standards to an account.
-    The signer account is the sender of the tokens, and the receiver account is the
-    recipient of the tokens. Ensure the contract account id exists and is in the same network as the signer and receiver accounts.`,
-    {
-      signerAccountId: z
-        .string()
-        .describe('The account that will send the tokens.'),
+      if (args.dryRun) {
+        return dryRun(connection, {
+          signerAccountId: args.signerAccountId,
+          receiverAccountId: receiverResult.value,
+          actions: [{ type: 'Transfer', deposit: amount }],
+        });
+      }
+      return confirmTransaction(
+        {
+          toolName: 'tokens_send_near',
+          networkId: args.networkId,
+          signerAccountId: args.signerAccountId,
+          receiverAccountId: receiverResult.value,
+          amount: `${formatTokenAmount(amount, NEAR_DECIMALS)} NEAR`,
+        },
+        [spend],
+        async () => {
+          const reservationResult = await reserveSpend(spend);
+          if (!reservationResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${reservationResult.error}` },
+              ],
+            };
+          }
+          const sendResult: Result<FinalExecutionOutcome, Error> =
+            await (async () => {
+              try {
+                const account = await connection.account(args.signerAccountId);
+                const sendMoneyResult =
+                  await signingQueue.signAndSendTransaction(
+                    account,
+                    receiverResult.value,
+                    [transactions.transfer(amount)],
+                  );
+                return {
+                  ok: true,
+                  value: sendMoneyResult,
+                };
+              } catch (e) {
+                return { ok: false, error: new Error(e as string) };
+              }
+            })();
+          if (!sendResult.ok) {
+            await reservationResult.value.release();
+            return {
+              content: [{ type: 'text', text: `Error: ${sendResult.error}` }],
+            };
+          }
+          // the deposits of a failed transaction are refunded
+          if (isFailedOutcome(sendResult.value)) {
+            await reservationResult.value.release();
+          }
+          return withOutcomes(
+            {
+              content: [
+                {
+                  type: 'text',
+                  text: formatOutcome(
+                    args.networkId,
+                    sendResult.value,
+                    args.rawOutcome,
+                  ),
+                },
+              ],
+            },
+            sendResult.value,
+          );
+        },
+      );
+    },
+  );
+
+  registerTool(
+    'tokens_send_ft',
+    noLeadingWhitespace`
+    Send Fungible Tokens (FT) like USDC native, USDT, WNEAR, etc. based on the NEP-141 and NEP-148 standards to an account.
+    The signer account is the sender of the tokens, and the receiver account is the
+    recipient of the tokens. Ensure the contract account id exists and is in the same network as the signer and receiver accounts.`,
+    {
+      signerAccountId: z
+        .string()
+        .describe('The account that will send the tokens.'),
       receiverAccountId: z
         .string()
-        .describe('The account that will receive the tokens.'),
-      networkId: z.enum(['mainnet']).default('mainnet'),
+        .describe(
+          'The account that will receive the tokens, or the name of a contact of the address book.',
+        ),
+      networkId: networkIdSchema.default(defaultNetwork),
       fungibleTokenContractAccountId: z
         .string()
         .describe(
@@ -1704,13 +2694,20 @@ export const createMcpServer = async (keyDir: string) => {
         .describe(
           'The amount of tokens to send in the fungible token contract. e.g. 1 USDC, 0.33 USDT, 1.5 WNEAR, etc.',
         ),
+      dryRun: dryRunSchema,
+      rawOutcome: rawOutcomeSchema,
     },
     async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        keyStore: keystore,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+      const receiverResult = resolveReceiver(
+        args.networkId,
+        args.receiverAccountId,
+      );
+      if (!receiverResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${receiverResult.error}` }],
+        };
+      }
+      const connection = await rpc.connect(args.networkId, keystore);
 
       // check that the fungible token contract exists by getting
       // the metadata of the contract
@@ -1736,75 +2733,145 @@ export const createMcpServer = async (keyDir: string) => {
       const amountInDecimals = BigInt(
         args.amount * 10 ** fungibleTokenContractMetadataResult.value.decimals,
       );
+      const spend: Spend = {
+        accountId: args.signerAccountId,
+        networkId: args.networkId,
+        token: args.fungibleTokenContractAccountId,
+        amount: amountInDecimals,
+        decimals: fungibleTokenContractMetadataResult.value.decimals,
+        symbol: fungibleTokenContractMetadataResult.value.symbol,
+      };
+      if (args.dryRun) {
+        return dryRun(connection, {
+          signerAccountId: args.signerAccountId,
+          receiverAccountId: args.fungibleTokenContractAccountId,
+          actions: [
+            {
+              type: 'FunctionCall',
+              methodName: 'ft_transfer',
+              args: {
+                receiver_id: receiverResult.value,
+                amount: amountInDecimals.toString(),
+              },
+              gas: defaultGas,
+              deposit: NearToken.parse_yocto_near('1').as_yocto_near(),
+            },
+          ],
+          tokenTransfer: {
+            contractId: args.fungibleTokenContractAccountId,
+            amount: amountInDecimals,
+            decimals: fungibleTokenContractMetadataResult.value.decimals,
+            symbol: fungibleTokenContractMetadataResult.value.symbol,
+          },
+        });
+      }
+      return confirmTransaction(
+        {
+          toolName: 'tokens_send_ft',
+          networkId: args.networkId,
+          signerAccountId: args.signerAccountId,
+          receiverAccountId: args.fungibleTokenContractAccountId,
+          methodName: 'ft_transfer',
+          amount: `${args.amount} ${fungibleTokenContractMetadataResult.value.symbol} to ${receiverResult.value}`,
+          deposit: 1n,
+          gas: defaultGas,
+        },
+        [spend],
+        async () => {
+          const reservationResult = await reserveSpend(spend);
+          if (!reservationResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${reservationResult.error}` },
+              ],
+            };
+          }
 
-      // call the transfer function of the fungible token contract
-      const transferResult: Result<FinalExecutionOutcome, Error> =
-        await (async () => {
-          try {
-            const fungibleTokenContractResult = await getAccount(
-              args.fungibleTokenContractAccountId,
-              connection,
-            );
-            if (!fungibleTokenContractResult.ok) {
-              return fungibleTokenContractResult;
-            }
-            const fungibleTokenContract = fungibleTokenContractResult.value;
-
-            const senderAccount = await connection.account(
-              args.signerAccountId,
-            );
-            const receiverAccount = await connection.account(
-              args.receiverAccountId,
-            );
+          // call the transfer function of the fungible token contract
+          const transferResult: Result<FinalExecutionOutcome, Error> =
+            await (async () => {
+              try {
+                const fungibleTokenContractResult = await getAccount(
+                  args.fungibleTokenContractAccountId,
+                  connection,
+                );
+                if (!fungibleTokenContractResult.ok) {
+                  return fungibleTokenContractResult;
+                }
+                const fungibleTokenContract = fungibleTokenContractResult.value;
+
+                const senderAccount = await connection.account(
+                  args.signerAccountId,
+                );
+                const receiverAccount = await connection.account(
+                  receiverResult.value,
+                );
 
+                return {
+                  ok: true,
+                  value: await signingQueue.signAndSendTransaction(
+                    senderAccount,
+                    fungibleTokenContract.accountId,
+                    [
+                      transactions.functionCall(
+                        'ft_transfer',
+                        {
+                          receiver_id: receiverAccount.accountId,
+                          amount: amountInDecimals.toString(),
+                        },
+                        defaultGas,
+                        NearToken.parse_yocto_near('1').as_yocto_near(),
+                      ),
+                    ],
+                  ),
+                };
+              } catch (e) {
+                return { ok: false, error: new Error(e as string) };
+              }
+            })();
+          if (!transferResult.ok) {
+            await reservationResult.value.release();
             return {
-              ok: true,
-              value: await senderAccount.functionCall({
-                contractId: fungibleTokenContract.accountId,
-                methodName: 'ft_transfer',
-                args: {
-                  receiver_id: receiverAccount.accountId,
-                  amount: amountInDecimals.toString(),
-                },
-                gas: DEFAULT_GAS,
-                attachedDeposit:
-                  NearToken.parse_yocto_near('1').as_yocto_near(),
-              }),
+              content: [
+                { type: 'text', text: `Error: ${transferResult.error}` },
+              ],
             };
-          } catch (e) {
-            return { ok: false, error: new Error(e as string) };
           }
-        })();
-      if (!transferResult.ok) {
-        return {
-          content: [{ type: 'text', text: `Error: ${transferResult.error}` }],
-        };
-      }
+          // the deposits of a failed transaction are refunded
+          if (isFailedOutcome(transferResult.value)) {
+            await reservationResult.value.release();
+          }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Transaction sent: ${stringify_bigint(transferResult.value)}`,
-          },
-        ],
-      };
+          return withOutcomes(
+            {
+              content: [
+                {
+                  type: 'text',
+                  text: formatOutcome(
+                    args.networkId,
+                    transferResult.value,
+                    args.rawOutcome,
+                  ),
+                },
+              ],
+            },
+            transferResult.value,
+          );
+        },
+      );
     },
   );
 
-  mcp.tool(
+  registerTool(
     'contract_view_functions',
     noLeadingWhitespace`
     View available functions on a NEAR smart contract.`,
     {
       contractId: z.string(),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
     },
     async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+      const connection = await rpc.connect(args.networkId);
 
       const accountResult: Result<Account, Error> = await getAccount(
         args.contractId,
@@ -1840,7 +2907,215 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
+    'contract_inspect_wasm',
+    noLeadingWhitespace`
+    Inspect the deployed code of a NEAR smart contract: its code hash, size and storage cost,
+    the host functions it imports (showing which NEAR features it uses), its custom sections
+    such as contractmetadata or near-abi, and whether it embeds an ABI (__contract_abi) or
+    NEP-330 source metadata (contract_source_metadata).`,
+    {
+      contractId: z.string(),
+      networkId: networkIdSchema.default(defaultNetwork),
+    },
+    async (args, _) => {
+      const connection = await rpc.connect(args.networkId);
+
+      const codeResult = await getContractCode(args.contractId, connection);
+      if (!codeResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${codeResult.error}` }],
+        };
+      }
+      const code = codeResult.value;
+      const inspectionResult = await inspectWasm(code);
+      if (!inspectionResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${inspectionResult.error}` }],
+        };
+      }
+      const inspection = inspectionResult.value;
+
+      const storageCostResult: Result<bigint, Error> = await (async () => {
+        try {
+          const protocolConfig =
+            await connection.connection.provider.experimental_protocolConfig({
+              finality: 'final',
+            });
+          return {
+            ok: true,
+            value:
+              BigInt(protocolConfig.runtime_config.storage_amount_per_byte) *
+              BigInt(code.length),
+          };
+        } catch (e) {
+          return { ok: false, error: new Error(e as string) };
+        }
+      })();
+      if (!storageCostResult.ok) {
+        return {
+          content: [
+            { type: 'text', text: `Error: ${storageCostResult.error}` },
+          ],
+        };
+      }
+
+      // the metadata is only reported when the method exists and succeeds
+      const sourceMetadata: unknown = inspection.hasSourceMetadata
+        ? await (async () => {
+            try {
+              const account = await connection.account(args.contractId);
+              return (await account.viewFunction({
+                contractId: args.contractId,
+                methodName: SOURCE_METADATA_METHOD,
+                args: {},
+              })) as unknown;
+            } catch {
+              return undefined;
+            }
+          })()
+        : undefined;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: stringify_bigint({
+              contractId: args.contractId,
+              codeHash: getCodeHash(code),
+              size: code.length,
+              storageCost: `${formatTokenAmount(storageCostResult.value, NEAR_DECIMALS)} NEAR`,
+              features: inspection.features,
+              hostFunctions: inspection.imports.map(
+                ({ module, name }) => `${module}.${name}`,
+              ),
+              customSections: inspection.customSections,
+              hasContractAbi: inspection.hasContractAbi,
+              hasSourceMetadata: inspection.hasSourceMetadata,
+              sourceMetadata,
+              methods: inspection.methods,
+            }),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    'contract_view_state',
+    noLeadingWhitespace`
+    View the raw key-value state of a NEAR smart contract, including data that no view method
+    exposes. Only keys starting with the prefix are returned, so use a prefix on large contracts:
+    the RPC refuses to return states larger than 50kB. Values are decoded as UTF-8, JSON or with a
+    borsh schema.`,
+    {
+      contractId: z.string(),
+      prefix: z
+        .string()
+        .default('')
+        .describe('The prefix of the keys to return, all keys when empty.'),
+      prefixEncoding: z
+        .enum(['utf8', 'base64'])
+        .default('utf8')
+        .describe('Whether the prefix is UTF-8 text or base64 encoded bytes.'),
+      valueEncoding: z
+        .enum(STATE_VALUE_ENCODINGS)
+        .default('utf8')
+        .describe('How the values are decoded.'),
+      borshSchema: BorshSchemaSchema.optional().describe(
+        'The borsh-js schema of the values, required when the values are decoded as borsh.',
+      ),
+      fromIndex: z
+        .number()
+        .int()
+        .min(0)
+        .default(0)
+        .describe('The index of the first key to return.'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(1000)
+        .default(50)
+        .describe('The maximum number of keys to return.'),
+      networkId: networkIdSchema.default(defaultNetwork),
+    },
+    async (args, _) => {
+      if (args.valueEncoding === 'borsh' && args.borshSchema === undefined) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Error: A borsh schema is required to decode borsh values',
+            },
+          ],
+        };
+      }
+      const connection = await rpc.connect(args.networkId);
+
+      const stateResult: Result<ViewStateResult, Error> = await (async () => {
+        try {
+          return {
+            ok: true,
+            value: await connection.connection.provider.query<ViewStateResult>({
+              request_type: 'view_state',
+              account_id: args.contractId,
+              prefix_base64:
+                args.prefixEncoding === 'base64'
+                  ? args.prefix
+                  : Buffer.from(args.prefix, 'utf-8').toString('base64'),
+              finality: 'final',
+            }),
+          };
+        } catch (e) {
+          return { ok: false, error: new Error(e as string) };
+        }
+      })();
+      if (!stateResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${stateResult.error}` }],
+        };
+      }
+
+      const { values, block_height } = stateResult.value;
+      const nextIndex = args.fromIndex + args.limit;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: stringify_bigint({
+              contractId: args.contractId,
+              blockHeight: block_height,
+              total: values.length,
+              nextIndex: nextIndex < values.length ? nextIndex : undefined,
+              values: values
+                .slice(args.fromIndex, nextIndex)
+                .map(({ key, value }) => {
+                  const keyBytes = Buffer.from(key, 'base64');
+                  const valueResult = decodeStateValue(
+                    Buffer.from(value, 'base64'),
+                    args.valueEncoding,
+                    args.borshSchema,
+                  );
+                  return {
+                    key: decodeStateKey(keyBytes),
+                    keyBase64: key,
+                    ...(valueResult.ok
+                      ? { value: valueResult.value }
+                      : {
+                          valueBase64: value,
+                          error: valueResult.error.message,
+                        }),
+                  };
+                }),
+            }),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
     'contract_get_function_args',
     noLeadingWhitespace`
     Get the arguments of a function call by parsing the contract's ABI or by using the nearblocks.io API (as a fallback).
@@ -1850,13 +3125,10 @@ export const createMcpServer = async (keyDir: string) => {
     {
       contractId: z.string(),
       methodName: z.string(),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      networkId: networkIdSchema.default(defaultNetwork),
     },
     async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+      const connection = await rpc.connect(args.networkId);
       const contractAccountResult: Result<Account, Error> = await getAccount(
         args.contractId,
         connection,
@@ -1992,24 +3264,51 @@ export const createMcpServer = async (keyDir: string) => {
     },
   );
 
-  mcp.tool(
+  registerTool(
     'contract_call_raw_function_as_read_only',
     noLeadingWhitespace`
     Call a function of a contract as a read-only call. This is equivalent to
-    saying we are calling a view method of the contract.`,
+    saying we are calling a view method of the contract. Arguments and results
+    are JSON by default, and can be raw bytes or borsh for contracts that take or
+    return binary data.`,
     {
       contractId: z.string().describe('The account id of the contract.'),
       methodName: z.string().describe('The name of the method to call.'),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
-      args: z
-        .record(z.string(), z.any())
-        .describe('The arguments to pass to the method.'),
+      networkId: networkIdSchema.default(defaultNetwork),
+      args: FunctionArgsSchema,
+      argsEncoding: argsEncodingSchema,
+      argsBorshSchema: argsBorshSchemaSchema,
+      resultEncoding: z
+        .enum(STATE_VALUE_ENCODINGS)
+        .default('json')
+        .describe('How the returned bytes are decoded.'),
+      resultBorshSchema: resultBorshSchemaSchema,
     },
     async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+      if (
+        args.resultEncoding === 'borsh' &&
+        args.resultBorshSchema === undefined
+      ) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Error: A borsh schema is required to decode a borsh result',
+            },
+          ],
+        };
+      }
+      const argsResult = encodeFunctionArgs(
+        args.args,
+        args.argsEncoding,
+        args.argsBorshSchema,
+      );
+      if (!argsResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${argsResult.error}` }],
+        };
+      }
+      const connection = await rpc.connect(args.networkId);
 
       const accountResult: Result<Account, Error> = await getAccount(
         args.contractId,
@@ -2022,49 +3321,70 @@ export const createMcpServer = async (keyDir: string) => {
       }
       const account = accountResult.value;
 
-      const viewCallResult: Result<unknown, Error> = await (async () => {
-        try {
-          return {
-            ok: true,
-            value: await account.viewFunction({
+      const viewCallResult: Result<Uint8Array | undefined, Error> =
+        await (async () => {
+          try {
+            const value: unknown = await account.viewFunction({
               contractId: args.contractId,
               methodName: args.methodName,
-              args: args.args,
-            }),
-          };
-        } catch (e) {
-          return { ok: false, error: new Error(e as string) };
-        }
-      })();
+              args: argsResult.value,
+              stringify: transactions.stringifyJsonOrBytes,
+              parse: (value) => value,
+            });
+            // nothing is parsed when the method returns no bytes
+            return {
+              ok: true,
+              value: value instanceof Uint8Array ? value : undefined,
+            };
+          } catch (e) {
+            return { ok: false, error: new Error(e as string) };
+          }
+        })();
       if (!viewCallResult.ok) {
         return {
           content: [{ type: 'text', text: `Error: ${viewCallResult.error}` }],
         };
       }
+      if (viewCallResult.value === undefined) {
+        return {
+          content: [{ type: 'text', text: 'The method returned no value' }],
+        };
+      }
+      const decodeResult = decodeStateValue(
+        viewCallResult.value,
+        args.resultEncoding,
+        args.resultBorshSchema,
+      );
+      if (!decodeResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${decodeResult.error}` }],
+        };
+      }
       return {
         content: [
           {
             type: 'text',
-            text: `View call result: ${stringify_bigint(viewCallResult.value)}`,
+            text: `View call result: ${stringify_bigint(decodeResult.value)}`,
           },
         ],
       };
     },
   );
 
-  mcp.tool(
+  registerTool(
     'contract_call_raw_function',
     noLeadingWhitespace`
     Call a function of a contract as a raw function call action. This tool creates a function call
-    as a transaction which costs gas and NEAR.`,
+    as a transaction which costs gas and NEAR. Arguments are JSON by default, and can be raw bytes
+    or borsh for contracts that take binary input.`,
     {
       accountId: z.string().describe('The account id of the signer.'),
       contractAccountId: z.string().describe('The account id of the contract.'),
       methodName: z.string().describe('The name of the method to call.'),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
-      args: z
-        .record(z.string(), z.any())
-        .describe('The arguments to pass to the method.'),
+      networkId: networkIdSchema.default(defaultNetwork),
+      args: FunctionArgsSchema,
+      argsEncoding: argsEncodingSchema,
+      argsBorshSchema: argsBorshSchemaSchema,
       gas: z
         .bigint()
         .optional()
@@ -2080,753 +3400,2921 @@ export const createMcpServer = async (keyDir: string) => {
         .describe(
           'The amount to attach to the function call (default to 1 yoctoNEAR). Can be specified as a number (in NEAR) or as a bigint (in yoctoNEAR).',
         ),
+      resultEncoding: z
+        .enum(STATE_VALUE_ENCODINGS)
+        .optional()
+        .describe(
+          'How the bytes returned by the function are decoded, they are only shown in the outcome when omitted.',
+        ),
+      resultBorshSchema: resultBorshSchemaSchema,
+      dryRun: dryRunSchema,
+      rawOutcome: rawOutcomeSchema,
     },
     async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        keyStore: keystore,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
-
-      const contractAccountResult: Result<Account, Error> = await getAccount(
-        args.contractAccountId,
-        connection,
-      );
-      if (!contractAccountResult.ok) {
+      if (
+        args.resultEncoding === 'borsh' &&
+        args.resultBorshSchema === undefined
+      ) {
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${contractAccountResult.error}`,
+              text: 'Error: A borsh schema is required to decode a borsh result',
             },
           ],
         };
       }
-      const contractAccount = contractAccountResult.value;
-
-      const functionCallResult: Result<unknown, Error> = await (async () => {
-        try {
-          const deposit =
-            typeof args.attachedDeposit === 'number'
-              ? NearToken.parse_near(
-                  args.attachedDeposit.toString(),
-                ).as_yocto_near()
-              : args.attachedDeposit;
-          const signerAccount = await connection.account(args.accountId);
-          return {
-            ok: true,
-            value: await signerAccount.functionCall({
-              contractId: contractAccount.accountId,
-              methodName: args.methodName,
-              args: args.args,
-              gas: args.gas || DEFAULT_GAS,
-              attachedDeposit: deposit,
-            }),
-          };
-        } catch (e) {
-          return { ok: false, error: new Error(e as string) };
-        }
-      })();
-      if (!functionCallResult.ok) {
+      const argsResult = encodeFunctionArgs(
+        args.args,
+        args.argsEncoding,
+        args.argsBorshSchema,
+      );
+      if (!argsResult.ok) {
         return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${functionCallResult.error}`,
-            },
-          ],
+          content: [{ type: 'text', text: `Error: ${argsResult.error}` }],
         };
       }
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Function call result: ${stringify_bigint(functionCallResult.value)}`,
-          },
-        ],
-      };
-    },
-  );
+      const functionArgs = argsResult.value;
+      const connection = await rpc.connect(args.networkId, keystore);
 
-  mcp.tool(
-    'ref_finance_get_pools',
-    noLeadingWhitespace`
-    Search for liquidity pools on the Ref Finance exchange contract based on two tokens.
-    Prioritize pools with higher liquidity and better rates for the user.`,
-    {
-      tokenA: z.object({
-        contractId: z.string().describe('The first token contract id'),
-        symbol: z.string().describe('The first token symbol'),
-      }),
-      tokenB: z.object({
-        contractId: z.string().describe('The second token contract id'),
-        symbol: z.string().describe('The second token symbol'),
-      }),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
-    },
-    async (args, _) => {
-      const connection = await connect({
-        networkId: args.networkId,
-        keyStore: keystore,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
-
-      const tokenAContractAccountResult = await getAccount(
-        args.tokenA.contractId,
+      const contractAccountResult: Result<Account, Error> = await getAccount(
+        args.contractAccountId,
         connection,
       );
-      if (!tokenAContractAccountResult.ok) {
+      if (!contractAccountResult.ok) {
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${tokenAContractAccountResult.error}`,
+              text: `Error: ${contractAccountResult.error}`,
             },
           ],
         };
       }
-      const tokenA = tokenAContractAccountResult.value;
-
-      const tokenBContractAccountResult = await getAccount(
-        args.tokenB.contractId,
+      const contractAccount = contractAccountResult.value;
+      const deposit =
+        typeof args.attachedDeposit === 'number'
+          ? NearToken.parse_near(
+              args.attachedDeposit.toString(),
+            ).as_yocto_near()
+          : args.attachedDeposit;
+
+      const tokenSpendResult = await getTokenTransferSpend(
         connection,
+        args.networkId,
+        args.accountId,
+        args.contractAccountId,
+        args.methodName,
+        getJsonArgs(functionArgs),
       );
-      if (!tokenBContractAccountResult.ok) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${tokenBContractAccountResult.error}`,
-            },
-          ],
-        };
-      }
-      const tokenB = tokenBContractAccountResult.value;
-
-      const poolsInfoResult = await refFinanceGetPoolsInfo(connection);
-      if (!poolsInfoResult.ok) {
+      if (!tokenSpendResult.ok) {
         return {
-          content: [{ type: 'text', text: `Error: ${poolsInfoResult.error}` }],
+          content: [{ type: 'text', text: `Error: ${tokenSpendResult.error}` }],
         };
       }
-
-      const filteredPools = poolsInfoResult.value.filter(
-        (pool) =>
-          pool.tokenIds.includes(tokenA.accountId) &&
-          pool.tokenIds.includes(tokenB.accountId),
-      );
-      if (filteredPools.length === 0) {
-        return {
-          content: [
+      const spends: Spend[] = [
+        {
+          accountId: args.accountId,
+          networkId: args.networkId,
+          token: NEAR_TOKEN,
+          amount: deposit,
+          decimals: NEAR_DECIMALS,
+        },
+        ...(tokenSpendResult.value ? [tokenSpendResult.value] : []),
+      ];
+      if (args.dryRun) {
+        const tokenSpend = spends.find((spend) => spend.token !== NEAR_TOKEN);
+        return dryRun(connection, {
+          signerAccountId: args.accountId,
+          receiverAccountId: args.contractAccountId,
+          actions: [
             {
-              type: 'text',
-              text: `No pool found for ${args.tokenA.contractId} and ${args.tokenB.contractId}`,
+              type: 'FunctionCall',
+              methodName: args.methodName,
+              args: functionArgs,
+              gas: args.gas || defaultGas,
+              deposit,
             },
           ],
-        };
+          tokenTransfer: tokenSpend && {
+            contractId: tokenSpend.token,
+            amount: tokenSpend.amount,
+            decimals: tokenSpend.decimals,
+            symbol: tokenSpend.symbol ?? tokenSpend.token,
+          },
+        });
       }
+      return confirmTransaction(
+        {
+          toolName: 'contract_call_raw_function',
+          networkId: args.networkId,
+          signerAccountId: args.accountId,
+          receiverAccountId: args.contractAccountId,
+          methodName: args.methodName,
+          deposit,
+          gas: args.gas || defaultGas,
+          details:
+            args.argsEncoding === 'json'
+              ? `Arguments: ${stringify_bigint(args.args)}`
+              : `Arguments (${args.argsEncoding}): ${stringify_bigint(args.args)}`,
+        },
+        spends,
+        async () => {
+          const reservationsResult = await reserveSpends(spends);
+          if (!reservationsResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${reservationsResult.error}` },
+              ],
+            };
+          }
 
-      return {
-        content: [{ type: 'text', text: stringify_bigint(filteredPools) }],
-      };
+          const functionCallResult: Result<FinalExecutionOutcome, Error> =
+            await (async () => {
+              try {
+                const signerAccount = await connection.account(args.accountId);
+                return {
+                  ok: true,
+                  value: await signingQueue.signAndSendTransaction(
+                    signerAccount,
+                    contractAccount.accountId,
+                    [
+                      transactions.functionCall(
+                        args.methodName,
+                        functionArgs,
+                        args.gas || defaultGas,
+                        deposit,
+                      ),
+                    ],
+                  ),
+                };
+              } catch (e) {
+                return { ok: false, error: new Error(e as string) };
+              }
+            })();
+          if (!functionCallResult.ok) {
+            await reservationsResult.value.release();
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: ${functionCallResult.error}`,
+                },
+              ],
+            };
+          }
+          // the deposits of a failed transaction are refunded
+          if (isFailedOutcome(functionCallResult.value)) {
+            await reservationsResult.value.release();
+          }
+          const { status } = functionCallResult.value;
+          const returnValue =
+            typeof status === 'object' ? status.SuccessValue : undefined;
+          const decodeResult =
+            args.resultEncoding !== undefined && returnValue
+              ? decodeStateValue(
+                  Buffer.from(returnValue, 'base64'),
+                  args.resultEncoding,
+                  args.resultBorshSchema,
+                )
+              : undefined;
+          return withOutcomes(
+            {
+              content: [
+                {
+                  type: 'text',
+                  text: formatOutcome(
+                    args.networkId,
+                    functionCallResult.value,
+                    args.rawOutcome,
+                  ),
+                },
+                ...(decodeResult
+                  ? [
+                      {
+                        type: 'text' as const,
+                        text: decodeResult.ok
+                          ? `Result: ${stringify_bigint(decodeResult.value)}`
+                          : `Failed to decode the result: ${decodeResult.error.message}`,
+                      },
+                    ]
+                  : []),
+              ],
+            },
+            functionCallResult.value,
+          );
+        },
+      );
     },
   );
 
-  mcp.tool(
-    'ref_finance_get_swap_estimate',
+  registerTool(
+    'contract_deploy',
     noLeadingWhitespace`
-    Get a swap estimate from the Ref Finance exchange contract based on two tokens and a pool id.`,
+    Deploy a contract to an account of the keystore, replacing its current contract. The code
+    is given base64 encoded, or as the path of a .wasm file of the server, which remote
+    sessions can only read from the keystore directory of their principal. An init or migrate method of the new contract can be called in the same
+    transaction, so the contract is never left deployed without its state.
+    Reports the code hash of the deployed contract and the code hash it replaced.`,
     {
-      tokenIn: z.object({
-        contractId: z
-          .string()
-          .describe('The contract id of the input token to be swapped'),
-        symbol: z.string().describe('The symbol of the input token'),
-      }),
-      tokenOut: z.object({
-        contractId: z
-          .string()
-          .describe('The contract id of the output token to be swapped'),
-        symbol: z.string().describe('The symbol of the output token'),
-      }),
-      amount: z
-        .union([
-          z
-            .number()
-            .describe(
-              'The amount of input tokens with decimal formatting (e.g., 1.5 wNEAR)',
-            ),
-          z
-            .bigint()
-            .describe(
-              'The amount in smallest denomination (e.g., yoctowNEAR for wNEAR, or equivalent for other tokens based on their decimals)',
-            ),
-        ])
-        .describe('The amount of the input tokens to swap'),
-      estimateType: z
-        .union([
-          z.object({
-            type: z
-              .literal('bySmartRoute')
-              .describe(
-                'Get an estimate using the ref finance smart router to find the best pool',
-              ),
-            pathDepth: z
-              .number()
-              .default(3)
-              .describe('The depth of the path to search for the best pool'),
-            slippagePercent: z
-              .number()
-              .default(0.001)
-              .describe(
-                'The slippage to use for the estimate. Only use 0.001, 0.005, or 0.01',
-              ),
-          }),
-          z.object({
-            type: z
-              .literal('byPoolId')
-              .describe('Get an estimate using a specific pool id'),
-            poolId: z.number().describe('The pool id (e.g. 1)'),
-          }),
-        ])
-        .default({ type: 'bySmartRoute' })
+      accountId: z
+        .string()
+        .describe('The account the contract is deployed to, and the signer.'),
+      code: z
+        .string()
+        .optional()
         .describe(
-          'The type of estimate to get. Defaults to the ref finance smart router to find the best price over all available pools',
+          'The wasm code of the contract, base64 encoded. Required unless `wasmFilePath` is given.',
         ),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
+      wasmFilePath: z
+        .string()
+        .optional()
+        .describe('The path of the .wasm file of the contract on the server.'),
+      initCall: z
+        .object({
+          methodName: z
+            .string()
+            .describe('The init or migrate method of the new contract.'),
+          args: z
+            .record(z.string(), z.any())
+            .default({})
+            .describe('The arguments to pass to the method.'),
+          gas: z
+            .bigint()
+            .optional()
+            .describe('The gas of the function call (default to 30TGas).'),
+          attachedDeposit: z
+            .union([
+              z.number().describe('The amount of NEAR tokens (in NEAR)'),
+              z.bigint().describe('The amount in yoctoNEAR'),
+            ])
+            .default(0)
+            .describe('The amount to attach to the function call.'),
+        })
+        .optional()
+        .describe('A method called right after the contract is deployed.'),
+      networkId: networkIdSchema.default(defaultNetwork),
+      rawOutcome: rawOutcomeSchema,
     },
     async (args, _) => {
-      if (args.tokenIn === args.tokenOut) {
+      const codeResult: Result<Buffer, Error> = await (async () => {
+        if ((args.code === undefined) === (args.wasmFilePath === undefined)) {
+          return {
+            ok: false,
+            error: new Error('Give either the code or the wasmFilePath'),
+          };
+        }
+        if (args.code !== undefined) {
+          return { ok: true, value: Buffer.from(args.code, 'base64') };
+        }
+        const filePathResult = resolveFilePath(args.wasmFilePath!);
+        if (!filePathResult.ok) {
+          return filePathResult;
+        }
+        try {
+          return { ok: true, value: await readFile(filePathResult.value) };
+        } catch (e) {
+          return {
+            ok: false,
+            error: new Error(
+              `Failed to read ${args.wasmFilePath}: ${e instanceof Error ? e.message : String(e)}`,
+            ),
+          };
+        }
+      })();
+      if (!codeResult.ok) {
         return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: Token in and token out cannot be the same`,
-            },
-          ],
+          content: [{ type: 'text', text: `Error: ${codeResult.error}` }],
         };
       }
-
-      const connection = await connect({
-        networkId: args.networkId,
-        keyStore: keystore,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
-
-      const tokenInContractAccountResult = await getAccount(
-        args.tokenIn.contractId,
-        connection,
-      );
-      if (!tokenInContractAccountResult.ok) {
+      const code = codeResult.value;
+      // invalid code is rejected before anything is signed
+      const methodsResult = await getWasmMethods(code);
+      if (!methodsResult.ok) {
         return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${tokenInContractAccountResult.error}`,
-            },
-          ],
+          content: [{ type: 'text', text: `Error: ${methodsResult.error}` }],
         };
       }
-      const tokenIn = tokenInContractAccountResult.value;
-
-      const tokenOutContractAccountResult = await getAccount(
-        args.tokenOut.contractId,
-        connection,
-      );
-      if (!tokenOutContractAccountResult.ok) {
+      const initCall = args.initCall;
+      if (initCall && !methodsResult.value.includes(initCall.methodName)) {
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${tokenOutContractAccountResult.error}`,
+              text: `Error: The contract has no method ${initCall.methodName}`,
             },
           ],
         };
       }
-      const tokenOut = tokenOutContractAccountResult.value;
 
-      const tokenInMetadata = await getFungibleTokenContractMetadataResult(
-        tokenIn.accountId,
+      const connection = await rpc.connect(args.networkId, keystore);
+      const accountResult: Result<Account, Error> = await getAccount(
+        args.accountId,
         connection,
       );
-      if (!tokenInMetadata.ok) {
+      if (!accountResult.ok) {
         return {
-          content: [{ type: 'text', text: `Error: ${tokenInMetadata.error}` }],
+          content: [{ type: 'text', text: `Error: ${accountResult.error}` }],
         };
       }
-      const tokenOutMetadata = await getFungibleTokenContractMetadataResult(
+      const account = accountResult.value;
+      const previousCodeHash = (await account.state()).code_hash;
+      const codeHash = getCodeHash(code);
+      const deposit =
+        initCall === undefined
+          ? 0n
+          : typeof initCall.attachedDeposit === 'number'
+            ? NearToken.parse_near(
+                initCall.attachedDeposit.toString(),
+              ).as_yocto_near()
+            : initCall.attachedDeposit;
+      const spend: Spend = {
+        accountId: args.accountId,
+        networkId: args.networkId,
+        token: NEAR_TOKEN,
+        amount: deposit,
+        decimals: NEAR_DECIMALS,
+      };
+      return confirmTransaction(
+        {
+          toolName: 'contract_deploy',
+          networkId: args.networkId,
+          signerAccountId: args.accountId,
+          receiverAccountId: args.accountId,
+          methodName: initCall?.methodName,
+          deposit: initCall && deposit,
+          gas: initCall && (initCall.gas ?? defaultGas),
+          details:
+            `Deploys ${code.length} bytes with code hash ${codeHash}` +
+            (previousCodeHash === EMPTY_CODE_HASH
+              ? ''
+              : `, replacing the contract with code hash ${previousCodeHash}`) +
+            (initCall ? `\nArguments: ${stringify_bigint(initCall.args)}` : ''),
+        },
+        [spend],
+        async () => {
+          const reservationResult = await reserveSpend(spend);
+          if (!reservationResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${reservationResult.error}` },
+              ],
+            };
+          }
+
+          const deployResult: Result<FinalExecutionOutcome, Error> =
+            await (async () => {
+              try {
+                return {
+                  ok: true,
+                  value: await signingQueue.signAndSendTransaction(
+                    account,
+                    args.accountId,
+                    [
+                      transactions.deployContract(code),
+                      ...(initCall
+                        ? [
+                            transactions.functionCall(
+                              initCall.methodName,
+                              initCall.args,
+                              initCall.gas ?? defaultGas,
+                              deposit,
+                            ),
+                          ]
+                        : []),
+                    ],
+                  ),
+                };
+              } catch (e) {
+                return { ok: false, error: new Error(e as string) };
+              }
+            })();
+          if (!deployResult.ok) {
+            await reservationResult.value.release();
+            return {
+              content: [{ type: 'text', text: `Error: ${deployResult.error}` }],
+            };
+          }
+          // the deposits of a failed transaction are refunded
+          if (isFailedOutcome(deployResult.value)) {
+            await reservationResult.value.release();
+          }
+
+          // the code hash of the account, as account_view_account_summary shows it
+          const deployedCodeHash = await (async () => {
+            try {
+              return (await account.state()).code_hash;
+            } catch {
+              return undefined;
+            }
+          })();
+          return withOutcomes(
+            {
+              content: [
+                {
+                  type: 'text',
+                  text: formatOutcome(
+                    args.networkId,
+                    deployResult.value,
+                    args.rawOutcome,
+                  ),
+                },
+                {
+                  type: 'text',
+                  text: stringify_bigint({
+                    accountId: args.accountId,
+                    codeHash,
+                    deployedCodeHash,
+                    previousCodeHash,
+                    codeChanged: codeHash !== previousCodeHash,
+                    size: code.length,
+                  }),
+                },
+              ],
+            },
+            deployResult.value,
+          );
+        },
+      );
+    },
+  );
+
+  type RegisteredContract = {
+    contractId: string;
+    networkId: string;
+    toolNames: string[];
+    // the tools that are allowed, the others are not registered
+    tools: RegisteredTool[];
+  };
+  // the contracts whose ABI functions are tools, by the prefix of the tools
+  const registeredContracts = new Map<string, RegisteredContract>();
+  const registerContractFunction = (
+    contractId: string,
+    networkId: string,
+    toolName: string,
+    fn: ContractFunction,
+  ): RegisteredTool | undefined => {
+    const argsSchema: z.ZodType<
+      Record<string, unknown> | undefined,
+      z.ZodTypeDef,
+      unknown
+    > = (fn.argsSchema ?? z.object({}).optional()).describe(
+      `The arguments of ${fn.name}.`,
+    );
+    const doc = fn.doc ? `${fn.doc}\n\n` : '';
+    if (fn.kind === 'view') {
+      readOnlyTools.add(toolName);
+      return registerTool(
+        toolName,
+        `${doc}Call the view function ${fn.name} of ${contractId} on ${networkId} as a read-only call.`,
+        { args: argsSchema },
+        async (args, _) => {
+          const connection = await rpc.connect(networkId);
+          const accountResult = await getAccount(contractId, connection);
+          if (!accountResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${accountResult.error}` },
+              ],
+            };
+          }
+          const viewCallResult: Result<unknown, Error> = await (async () => {
+            try {
+              return {
+                ok: true,
+                value: await accountResult.value.viewFunction({
+                  contractId,
+                  methodName: fn.name,
+                  args: args.args ?? {},
+                  parse: fn.borshResult
+                    ? (value) => Buffer.from(value).toString('base64')
+                    : undefined,
+                }),
+              };
+            } catch (e) {
+              return { ok: false, error: new Error(e as string) };
+            }
+          })();
+          if (!viewCallResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${viewCallResult.error}` },
+              ],
+            };
+          }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `View call result: ${stringify_bigint(viewCallResult.value)}`,
+              },
+            ],
+          };
+        },
+      );
+    }
+    auditedTools.add(toolName);
+    return registerTool(
+      toolName,
+      `${doc}Call the function ${fn.name} of ${contractId} on ${networkId} in a transaction signed by the signer, which costs gas${fn.payable ? ' and can attach a deposit' : ''}.`,
+      {
+        signerAccountId: z.string().describe('The account id of the signer.'),
+        args: argsSchema,
+        gas: z
+          .bigint()
+          .optional()
+          .describe(
+            'The amount of gas to use for the function call (default to 30TGas).',
+          ),
+        attachedDeposit: (fn.payable
+          ? z
+              .union([
+                z.number().describe('The amount of NEAR tokens (in NEAR)'),
+                z.bigint().describe('The amount in yoctoNEAR'),
+              ])
+              .default(NearToken.parse_yocto_near('1').as_near())
+              .describe(
+                'The amount to attach to the function call (default to 1 yoctoNEAR). Can be specified as a number (in NEAR) or as a bigint (in yoctoNEAR).',
+              )
+          : z
+              .literal(0)
+              .default(0)
+              .describe('The function is not payable.')) as z.ZodType<
+          number | bigint,
+          z.ZodTypeDef,
+          unknown
+        >,
+        rawOutcome: rawOutcomeSchema,
+      },
+      async (args, _) => {
+        const connection = await rpc.connect(networkId, keystore);
+        const functionArgs = args.args ?? {};
+        const deposit =
+          typeof args.attachedDeposit === 'number'
+            ? NearToken.parse_near(
+                args.attachedDeposit.toString(),
+              ).as_yocto_near()
+            : args.attachedDeposit;
+        const gas = args.gas || defaultGas;
+
+        const tokenSpendResult = await getTokenTransferSpend(
+          connection,
+          networkId,
+          args.signerAccountId,
+          contractId,
+          fn.name,
+          functionArgs,
+        );
+        if (!tokenSpendResult.ok) {
+          return {
+            content: [
+              { type: 'text', text: `Error: ${tokenSpendResult.error}` },
+            ],
+          };
+        }
+        const spends: Spend[] = [
+          {
+            accountId: args.signerAccountId,
+            networkId,
+            token: NEAR_TOKEN,
+            amount: deposit,
+            decimals: NEAR_DECIMALS,
+          },
+          ...(tokenSpendResult.value ? [tokenSpendResult.value] : []),
+        ];
+        return confirmTransaction(
+          {
+            toolName,
+            networkId,
+            signerAccountId: args.signerAccountId,
+            receiverAccountId: contractId,
+            methodName: fn.name,
+            deposit,
+            gas,
+            details: `Arguments: ${stringify_bigint(functionArgs)}`,
+          },
+          spends,
+          async () => {
+            const reservationsResult = await reserveSpends(spends);
+            if (!reservationsResult.ok) {
+              return {
+                content: [
+                  { type: 'text', text: `Error: ${reservationsResult.error}` },
+                ],
+              };
+            }
+
+            const functionCallResult: Result<FinalExecutionOutcome, Error> =
+              await (async () => {
+                try {
+                  const signerAccount = await connection.account(
+                    args.signerAccountId,
+                  );
+                  return {
+                    ok: true,
+                    value: await signingQueue.signAndSendTransaction(
+                      signerAccount,
+                      contractId,
+                      [
+                        transactions.functionCall(
+                          fn.name,
+                          functionArgs,
+                          gas,
+                          deposit,
+                        ),
+                      ],
+                    ),
+                  };
+                } catch (e) {
+                  return { ok: false, error: new Error(e as string) };
+                }
+              })();
+            if (!functionCallResult.ok) {
+              await reservationsResult.value.release();
+              return {
+                content: [
+                  { type: 'text', text: `Error: ${functionCallResult.error}` },
+                ],
+              };
+            }
+            // the deposits of a failed transaction are refunded
+            if (isFailedOutcome(functionCallResult.value)) {
+              await reservationsResult.value.release();
+            }
+            return withOutcomes(
+              {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatOutcome(
+                      networkId,
+                      functionCallResult.value,
+                      args.rawOutcome,
+                    ),
+                  },
+                ],
+              },
+              functionCallResult.value,
+            );
+          },
+          // the rules of raw function calls apply to every contract function
+          ['contract_call_raw_function'],
+        );
+      },
+    );
+  };
+  const unregisterContract = (prefix: string) => {
+    const contract = registeredContracts.get(prefix);
+    if (!contract) {
+      return [];
+    }
+    contract.tools.forEach((tool) => tool.remove());
+    contract.toolNames.forEach((toolName) => {
+      readOnlyTools.delete(toolName);
+      auditedTools.delete(toolName);
+    });
+    registeredContracts.delete(prefix);
+    return contract.toolNames;
+  };
+  const registerContract = async ({
+    contractId,
+    networkId = defaultNetwork,
+    name,
+    methods,
+    functions: fetchedFunctions,
+  }: ContractTools): Promise<
+    Result<
+      {
+        prefix: string;
+        networkId: string;
+        tools: string[];
+        hiddenTools: string[];
+      },
+      Error
+    >
+  > => {
+    if (!networkIds.includes(networkId)) {
+      return { ok: false, error: new Error(`Unknown network ${networkId}`) };
+    }
+    const prefix = name ?? getContractToolPrefix(contractId);
+    const registered = registeredContracts.get(prefix);
+    if (registered) {
+      return {
+        ok: false,
+        error: new Error(
+          `The tools prefixed ${prefix}__ are already registered for ${registered.contractId} on ${registered.networkId}`,
+        ),
+      };
+    }
+    const functionsResult: Result<ContractFunction[], Error> = fetchedFunctions
+      ? { ok: true, value: fetchedFunctions }
+      : await fetchContractFunctions(rpc, contractId, networkId, methods);
+    if (!functionsResult.ok) {
+      return functionsResult;
+    }
+    const functions = functionsResult.value;
+    const toolNames = functions.map((fn) =>
+      getContractToolName(prefix, fn.name),
+    );
+    const contract: RegisteredContract = {
+      contractId,
+      networkId,
+      toolNames,
+      tools: [],
+    };
+    registeredContracts.set(prefix, contract);
+    try {
+      functions.forEach((fn, index) => {
+        const tool = registerContractFunction(
+          contractId,
+          networkId,
+          toolNames[index]!,
+          fn,
+        );
+        if (tool) {
+          contract.tools.push(tool);
+        }
+      });
+    } catch (e) {
+      unregisterContract(prefix);
+      return { ok: false, error: new Error(e as string) };
+    }
+    return {
+      ok: true,
+      value: {
+        prefix,
+        networkId,
+        tools: toolNames.filter(isToolAllowed),
+        hiddenTools: toolNames.filter((toolName) => !isToolAllowed(toolName)),
+      },
+    };
+  };
+
+  registerTool(
+    'contract_register',
+    noLeadingWhitespace`
+    Register the functions of a contract as tools, generated from the ABI the contract embeds.
+    Each function becomes a tool named after the contract and the function, e.g. wrap_near__ft_balance_of,
+    taking the arguments of the function as described by the ABI. View functions are called as read-only
+    calls, change functions in a transaction with their gas and, when payable, their deposit.
+    The client is notified that the tool list changed. Init and private functions, and the functions
+    taking borsh arguments, are not registered.`,
+    {
+      ...ContractToolsConfigSchema.shape,
+      networkId: networkIdSchema.default(defaultNetwork),
+    },
+    async (args, _) => {
+      const registerResult = await registerContract(args);
+      if (!registerResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${registerResult.error}` }],
+        };
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: stringify_bigint({
+              contractId: args.contractId,
+              ...registerResult.value,
+            }),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    'contract_unregister',
+    noLeadingWhitespace`
+    Remove the tools registered for a contract by contract_register or the server config.
+    The client is notified that the tool list changed.`,
+    {
+      name: z
+        .string()
+        .describe(
+          'The prefix of the tools, e.g. wrap_near, or the account id of the contract.',
+        ),
+    },
+    async (args, _) => {
+      const prefixes = registeredContracts.has(args.name)
+        ? [args.name]
+        : Array.from(registeredContracts.entries())
+            .filter(([, contract]) => contract.contractId === args.name)
+            .map(([prefix]) => prefix);
+      if (prefixes.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: No tools registered for ${args.name}, the registered prefixes are: ${Array.from(registeredContracts.keys()).join(', ') || 'none'}`,
+            },
+          ],
+        };
+      }
+      const toolNames = prefixes.flatMap(unregisterContract);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Removed the tools: ${toolNames.join(', ')}`,
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    'ref_finance_get_pools',
+    noLeadingWhitespace`
+    Search for liquidity pools on the Ref Finance exchange contract based on two tokens.
+    Prioritize pools with higher liquidity and better rates for the user.`,
+    {
+      tokenA: z.object({
+        contractId: z.string().describe('The first token contract id'),
+        symbol: z.string().describe('The first token symbol'),
+      }),
+      tokenB: z.object({
+        contractId: z.string().describe('The second token contract id'),
+        symbol: z.string().describe('The second token symbol'),
+      }),
+      networkId: networkIdSchema.default(defaultNetwork),
+    },
+    async (args, _) => {
+      const connection = await rpc.connect(args.networkId, keystore);
+
+      const tokenAContractAccountResult = await getAccount(
+        args.tokenA.contractId,
+        connection,
+      );
+      if (!tokenAContractAccountResult.ok) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${tokenAContractAccountResult.error}`,
+            },
+          ],
+        };
+      }
+      const tokenA = tokenAContractAccountResult.value;
+
+      const tokenBContractAccountResult = await getAccount(
+        args.tokenB.contractId,
+        connection,
+      );
+      if (!tokenBContractAccountResult.ok) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${tokenBContractAccountResult.error}`,
+            },
+          ],
+        };
+      }
+      const tokenB = tokenBContractAccountResult.value;
+
+      const poolsInfoResult = await refFinanceGetPoolsInfo(
+        connection,
+        getNetworkConfig(args.networkId),
+      );
+      if (!poolsInfoResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${poolsInfoResult.error}` }],
+        };
+      }
+
+      const filteredPools = poolsInfoResult.value.filter(
+        (pool) =>
+          pool.tokenIds.includes(tokenA.accountId) &&
+          pool.tokenIds.includes(tokenB.accountId),
+      );
+      if (filteredPools.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `No pool found for ${args.tokenA.contractId} and ${args.tokenB.contractId}`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [{ type: 'text', text: stringify_bigint(filteredPools) }],
+      };
+    },
+  );
+
+  registerTool(
+    'ref_finance_get_swap_estimate',
+    noLeadingWhitespace`
+    Get a swap estimate from the Ref Finance exchange contract based on two tokens and a pool id.`,
+    {
+      tokenIn: z.object({
+        contractId: z
+          .string()
+          .describe('The contract id of the input token to be swapped'),
+        symbol: z.string().describe('The symbol of the input token'),
+      }),
+      tokenOut: z.object({
+        contractId: z
+          .string()
+          .describe('The contract id of the output token to be swapped'),
+        symbol: z.string().describe('The symbol of the output token'),
+      }),
+      amount: z
+        .union([
+          z
+            .number()
+            .describe(
+              'The amount of input tokens with decimal formatting (e.g., 1.5 wNEAR)',
+            ),
+          z
+            .bigint()
+            .describe(
+              'The amount in smallest denomination (e.g., yoctowNEAR for wNEAR, or equivalent for other tokens based on their decimals)',
+            ),
+        ])
+        .describe('The amount of the input tokens to swap'),
+      estimateType: z
+        .union([
+          z.object({
+            type: z
+              .literal('bySmartRoute')
+              .describe(
+                'Get an estimate using the ref finance smart router to find the best pool',
+              ),
+            pathDepth: z
+              .number()
+              .default(3)
+              .describe('The depth of the path to search for the best pool'),
+            slippagePercent: z
+              .number()
+              .default(0.001)
+              .describe(
+                'The slippage to use for the estimate. Only use 0.001, 0.005, or 0.01',
+              ),
+          }),
+          z.object({
+            type: z
+              .literal('byPoolId')
+              .describe('Get an estimate using a specific pool id'),
+            poolId: z.number().describe('The pool id (e.g. 1)'),
+          }),
+        ])
+        .default({ type: 'bySmartRoute' })
+        .describe(
+          'The type of estimate to get. Defaults to the ref finance smart router to find the best price over all available pools',
+        ),
+      networkId: networkIdSchema.default(defaultNetwork),
+    },
+    async (args, _) => {
+      if (args.tokenIn === args.tokenOut) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: Token in and token out cannot be the same`,
+            },
+          ],
+        };
+      }
+
+      const connection = await rpc.connect(args.networkId, keystore);
+
+      const tokenInContractAccountResult = await getAccount(
+        args.tokenIn.contractId,
+        connection,
+      );
+      if (!tokenInContractAccountResult.ok) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${tokenInContractAccountResult.error}`,
+            },
+          ],
+        };
+      }
+      const tokenIn = tokenInContractAccountResult.value;
+
+      const tokenOutContractAccountResult = await getAccount(
+        args.tokenOut.contractId,
+        connection,
+      );
+      if (!tokenOutContractAccountResult.ok) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${tokenOutContractAccountResult.error}`,
+            },
+          ],
+        };
+      }
+      const tokenOut = tokenOutContractAccountResult.value;
+
+      const tokenInMetadata = await getFungibleTokenContractMetadataResult(
+        tokenIn.accountId,
+        connection,
+      );
+      if (!tokenInMetadata.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${tokenInMetadata.error}` }],
+        };
+      }
+      const tokenOutMetadata = await getFungibleTokenContractMetadataResult(
+        tokenOut.accountId,
+        connection,
+      );
+      if (!tokenOutMetadata.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${tokenOutMetadata.error}` }],
+        };
+      }
+
+      const estimateType = args.estimateType;
+      if (estimateType.type === 'byPoolId') {
+        const poolResult = await refFinanceGetPoolFromId(
+          connection,
+          estimateType.poolId,
+          getNetworkConfig(args.networkId),
+        );
+        if (!poolResult.ok) {
+          return {
+            content: [{ type: 'text', text: `Error: ${poolResult.error}` }],
+          };
+        }
+        const poolInfo = poolResult.value;
+
+        if (
+          !poolInfo.tokenIds.includes(tokenIn.accountId) ||
+          !poolInfo.tokenIds.includes(tokenOut.accountId)
+        ) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Pool tokens [${poolInfo.tokenIds.join(', ')}] do not include ${args.tokenIn.contractId} or ${args.tokenOut.contractId}`,
+              },
+            ],
+          };
+        }
+
+        // calculate the pool estimate
+        const poolEstimate = await refFinanceGetEstimate(
+          {
+            id: tokenIn.accountId,
+            metadata: tokenInMetadata.value,
+          },
+          {
+            id: tokenOut.accountId,
+            metadata: tokenOutMetadata.value,
+          },
+          poolInfo,
+          args.amount.toString(),
+        );
+        if (!poolEstimate.ok) {
+          return {
+            content: [{ type: 'text', text: `Error: ${poolEstimate.error}` }],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Pool info: ${stringify_bigint(poolEstimate.value)}`,
+            },
+          ],
+        };
+      } else {
+        // convert the amount into the decimals of the fungible token
+        const amountInDecimals =
+          typeof args.amount === 'number'
+            ? BigInt(
+                Math.floor(args.amount * 10 ** tokenInMetadata.value.decimals),
+              )
+            : args.amount;
+
+        const smartRouteEstimate = await getSmartRouteRefSwapEstimate(
+          amountInDecimals.toString(),
+          tokenIn.accountId,
+          tokenOut.accountId,
+          estimateType.pathDepth,
+          estimateType.slippagePercent,
+        );
+        if (!smartRouteEstimate.ok) {
+          return {
+            content: [
+              { type: 'text', text: `Error: ${smartRouteEstimate.error}` },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Smart route estimate: ${stringify_bigint(
+                smartRouteEstimate.value,
+              )}`,
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  registerTool(
+    'ref_finance_execute_swap',
+    noLeadingWhitespace`
+    Execute a swap on Ref Finance based on two tokens and a pool id.
+    Prioritize pools with higher liquidity and better rates for the user.`,
+    {
+      accountId: z
+        .string()
+        .describe('The account id of the user doing the swap'),
+      tokenIn: z.object({
+        contractId: z
+          .string()
+          .describe('The contract id of the input token to be swapped'),
+        symbol: z.string().describe('The symbol of the input token'),
+      }),
+      tokenOut: z.object({
+        contractId: z
+          .string()
+          .describe('The contract id of the output token to be swapped'),
+        symbol: z.string().describe('The symbol of the output token'),
+      }),
+      amount: z
+        .union([
+          z
+            .number()
+            .describe(
+              'The amount of input tokens with decimal formatting (e.g., 1.5 wNEAR)',
+            ),
+          z
+            .bigint()
+            .describe(
+              'The amount in smallest denomination (e.g., yoctowNEAR for wNEAR, or equivalent for other tokens based on their decimals)',
+            ),
+        ])
+        .describe('The amount of the input tokens to swap'),
+      swapType: z
+        .union([
+          z.object({
+            type: z
+              .literal('bySmartRoute')
+              .describe(
+                'Get an estimate using the ref finance smart router to find the best pool',
+              ),
+            pathDepth: z
+              .number()
+              .default(3)
+              .describe('The depth of the path to search for the best pool'),
+            slippagePercent: z
+              .number()
+              .default(0.001)
+              .describe(
+                'The slippage to use for the estimate. Only use 0.001, 0.005, or 0.01',
+              ),
+          }),
+          z.object({
+            type: z
+              .literal('byPoolId')
+              .describe('Get an estimate using a specific pool id'),
+            poolId: z.number().describe('The pool id (e.g. 1)'),
+          }),
+        ])
+        .default({ type: 'bySmartRoute' })
+        .describe(
+          'The type of estimate to get. Defaults to the ref finance smart router to find the best price over all available pools',
+        ),
+      networkId: networkIdSchema.default(defaultNetwork),
+      dryRun: dryRunSchema,
+      rawOutcome: rawOutcomeSchema,
+    },
+    async (args, _) => {
+      if (args.tokenIn === args.tokenOut) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: Token in and token out cannot be the same`,
+            },
+          ],
+        };
+      }
+
+      const connection = await rpc.connect(args.networkId, keystore);
+
+      const tokenInContractAccountResult = await getAccount(
+        args.tokenIn.contractId,
+        connection,
+      );
+      if (!tokenInContractAccountResult.ok) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${tokenInContractAccountResult.error}`,
+            },
+          ],
+        };
+      }
+      const tokenIn = tokenInContractAccountResult.value;
+
+      const tokenOutContractAccountResult = await getAccount(
+        args.tokenOut.contractId,
+        connection,
+      );
+      if (!tokenOutContractAccountResult.ok) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${tokenOutContractAccountResult.error}`,
+            },
+          ],
+        };
+      }
+      const tokenOut = tokenOutContractAccountResult.value;
+
+      const tokenInMetadata = await getFungibleTokenContractMetadataResult(
+        tokenIn.accountId,
+        connection,
+      );
+      if (!tokenInMetadata.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${tokenInMetadata.error}` }],
+        };
+      }
+      const tokenOutMetadata = await getFungibleTokenContractMetadataResult(
         tokenOut.accountId,
         connection,
       );
-      if (!tokenOutMetadata.ok) {
+      if (!tokenOutMetadata.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${tokenOutMetadata.error}` }],
+        };
+      }
+
+      // convert the amount into the decimals of the fungible token
+      const amountInDecimals =
+        typeof args.amount === 'number'
+          ? BigInt(
+              Math.floor(args.amount * 10 ** tokenInMetadata.value.decimals),
+            )
+          : args.amount;
+
+      const tokenInSpend: Spend = {
+        accountId: args.accountId,
+        networkId: args.networkId,
+        token: tokenIn.accountId,
+        amount: amountInDecimals,
+        decimals: tokenInMetadata.value.decimals,
+        symbol: tokenInMetadata.value.symbol,
+      };
+      // the swap is a single transfer of the input token to Ref Finance
+      const dryRunSwap = (swapActions: RefSwapByOutputAction[]) =>
+        dryRun(connection, {
+          signerAccountId: args.accountId,
+          receiverAccountId: tokenIn.accountId,
+          actions: [
+            {
+              type: 'FunctionCall',
+              methodName: 'ft_transfer_call',
+              args: {
+                receiver_id: getNetworkConfig(args.networkId)
+                  .REF_FI_CONTRACT_ID,
+                amount: amountInDecimals.toString(),
+                msg: JSON.stringify({ actions: swapActions }),
+              },
+              gas: defaultGas,
+              deposit: NearToken.parse_yocto_near('1').as_yocto_near(),
+            },
+          ],
+          tokenTransfer: {
+            contractId: tokenIn.accountId,
+            amount: amountInDecimals,
+            decimals: tokenInMetadata.value.decimals,
+            symbol: tokenInMetadata.value.symbol,
+          },
+        });
+
+      const swapType = args.swapType;
+      if (swapType.type === 'byPoolId') {
+        const poolResult = await refFinanceGetPoolFromId(
+          connection,
+          swapType.poolId,
+          getNetworkConfig(args.networkId),
+        );
+        if (!poolResult.ok) {
+          return {
+            content: [{ type: 'text', text: `Error: ${poolResult.error}` }],
+          };
+        }
+        const poolInfo = poolResult.value;
+
+        if (
+          !poolInfo.tokenIds.includes(tokenIn.accountId) ||
+          !poolInfo.tokenIds.includes(tokenOut.accountId)
+        ) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Pool tokens [${poolInfo.tokenIds.join(', ')}] do not include ${args.tokenIn.contractId} or ${args.tokenOut.contractId}`,
+              },
+            ],
+          };
+        }
+
+        // calculate the pool estimate
+        const poolEstimate = await refFinanceGetEstimate(
+          {
+            id: tokenIn.accountId,
+            metadata: tokenInMetadata.value,
+          },
+          {
+            id: tokenOut.accountId,
+            metadata: tokenOutMetadata.value,
+          },
+          poolInfo,
+          args.amount.toString(),
+        );
+        if (!poolEstimate.ok) {
+          return {
+            content: [{ type: 'text', text: `Error: ${poolEstimate.error}` }],
+          };
+        }
+        const swapActions: RefSwapByOutputAction[] = [
+          {
+            pool_id: poolInfo.id,
+            token_in: tokenIn.accountId,
+            amount_out: '0',
+            token_out: tokenOut.accountId,
+            min_amount_out: poolEstimate.value.estimate,
+          },
+        ];
+        if (args.dryRun) {
+          return dryRunSwap(swapActions);
+        }
+
+        return confirmTransaction(
+          {
+            toolName: 'ref_finance_execute_swap',
+            networkId: args.networkId,
+            signerAccountId: args.accountId,
+            receiverAccountId: tokenIn.accountId,
+            methodName: 'ft_transfer_call',
+            amount: `${formatTokenAmount(amountInDecimals, tokenInMetadata.value.decimals)} ${tokenInMetadata.value.symbol} for ${tokenOutMetadata.value.symbol}`,
+            deposit: 1n,
+            gas: defaultGas,
+            details: `Swaps through pool ${poolInfo.id}`,
+          },
+          [tokenInSpend],
+          async () => {
+            const reservationResult = await reserveSpend(tokenInSpend);
+            if (!reservationResult.ok) {
+              return {
+                content: [
+                  { type: 'text', text: `Error: ${reservationResult.error}` },
+                ],
+              };
+            }
+
+            // execute swap
+            const swapResult = await executeRefSwap(
+              connection,
+              args.accountId,
+              tokenIn,
+              amountInDecimals.toString(),
+              swapActions,
+              getNetworkConfig(args.networkId),
+              defaultGas,
+              signingQueue,
+            );
+            if (!swapResult.ok) {
+              await reservationResult.value.release();
+              return {
+                content: [{ type: 'text', text: `Error: ${swapResult.error}` }],
+              };
+            }
+            // the deposits of a failed transaction are refunded
+            if (isFailedOutcome(swapResult.value)) {
+              await reservationResult.value.release();
+            }
+
+            return withOutcomes(
+              {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatOutcome(
+                      args.networkId,
+                      swapResult.value,
+                      args.rawOutcome,
+                    ),
+                  },
+                ],
+              },
+              swapResult.value,
+            );
+          },
+        );
+      } else {
+        const smartRouteEstimate = await getSmartRouteRefSwapEstimate(
+          amountInDecimals.toString(),
+          tokenIn.accountId,
+          tokenOut.accountId,
+          swapType.pathDepth,
+          swapType.slippagePercent,
+        );
+
+        if (!smartRouteEstimate.ok) {
+          return {
+            content: [
+              { type: 'text', text: `Error: ${smartRouteEstimate.error}` },
+            ],
+          };
+        }
+        const swapActions = refSwapEstimateToActions(smartRouteEstimate.value);
+        if (args.dryRun) {
+          return dryRunSwap(swapActions);
+        }
+
+        return confirmTransaction(
+          {
+            toolName: 'ref_finance_execute_swap',
+            networkId: args.networkId,
+            signerAccountId: args.accountId,
+            receiverAccountId: tokenIn.accountId,
+            methodName: 'ft_transfer_call',
+            amount: `${formatTokenAmount(amountInDecimals, tokenInMetadata.value.decimals)} ${tokenInMetadata.value.symbol} for ${tokenOutMetadata.value.symbol}`,
+            deposit: 1n,
+            gas: defaultGas,
+            details: 'Swaps through the Ref Finance smart router',
+          },
+          [tokenInSpend],
+          async () => {
+            const reservationResult = await reserveSpend(tokenInSpend);
+            if (!reservationResult.ok) {
+              return {
+                content: [
+                  { type: 'text', text: `Error: ${reservationResult.error}` },
+                ],
+              };
+            }
+
+            // execute swap
+            const swapResult = await executeRefSwap(
+              connection,
+              args.accountId,
+              tokenIn,
+              amountInDecimals.toString(),
+              swapActions,
+              getNetworkConfig(args.networkId),
+              defaultGas,
+              signingQueue,
+            );
+            if (!swapResult.ok) {
+              await reservationResult.value.release();
+              return {
+                content: [{ type: 'text', text: `Error: ${swapResult.error}` }],
+              };
+            }
+            // the deposits of a failed transaction are refunded
+            if (isFailedOutcome(swapResult.value)) {
+              await reservationResult.value.release();
+            }
+
+            return withOutcomes(
+              {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatOutcome(
+                      args.networkId,
+                      swapResult.value,
+                      args.rawOutcome,
+                    ),
+                  },
+                ],
+              },
+              swapResult.value,
+            );
+          },
+        );
+      }
+    },
+  );
+
+  registerTool(
+    'audit_query',
+    noLeadingWhitespace`
+    Search the audit log of the tool calls that signed or could have signed a transaction,
+    most recent last. Each entry has the tool, its arguments, the signer, the public key,
+    the transaction hashes, the final status and the error, if any.`,
+    {
+      ...AuditQuerySchema.omit({ principal: true, limit: true }).shape,
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .default(50)
+        .describe('The most recent entries to return.'),
+    },
+    async (args, _) => {
+      if (!auditLog) {
+        return {
+          content: [{ type: 'text', text: 'Error: The audit log is disabled' }],
+        };
+      }
+      // a principal only sees the entries of its own sessions
+      const entriesResult = await auditLog.query({
+        ...args,
+        principal: options.principal,
+      });
+      if (!entriesResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${entriesResult.error}` }],
+        };
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text:
+              entriesResult.value.length > 0
+                ? stringify_bigint(entriesResult.value)
+                : 'No matching audit log entries',
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    'transaction_send_batch',
+    noLeadingWhitespace`
+    Send an ordered list of actions to a single receiver as one atomic transaction,
+    either all the actions are applied or none of them. For example, create a sub-account,
+    fund it, add a key and deploy a contract in one transaction by sending the CreateAccount,
+    Transfer, AddKey and DeployContract actions to the new sub-account.
+    Actions other than Transfer and FunctionCall only apply to the signer itself,
+    or to the account created by the batch.`,
+    {
+      signerAccountId: z.string(),
+      receiverAccountId: z
+        .string()
+        .describe(
+          'The account receiving all the actions, or the name of a contact of the address book.',
+        ),
+      actions: TransactionActionsSchema.describe(
+        'The actions of the transaction, applied in order.',
+      ),
+      networkId: networkIdSchema.default(defaultNetwork),
+      rawOutcome: rawOutcomeSchema,
+    },
+    async (args, _) => {
+      const connection = await rpc.connect(args.networkId, keystore);
+      const batchResult = await prepareBatch(
+        connection,
+        args.networkId,
+        args.signerAccountId,
+        args.receiverAccountId,
+        args.actions,
+      );
+      if (!batchResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${batchResult.error}` }],
+        };
+      }
+      const batch = batchResult.value;
+
+      return confirmTransaction(
+        { toolName: 'transaction_send_batch', ...batch.summary },
+        batch.spends,
+        async () => {
+          const reservationsResult = await reserveSpends(batch.spends);
+          if (!reservationsResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${reservationsResult.error}` },
+              ],
+            };
+          }
+
+          const sendResult: Result<FinalExecutionOutcome, Error> =
+            await (async () => {
+              try {
+                const account = await connection.account(args.signerAccountId);
+                return {
+                  ok: true,
+                  value: await signingQueue.signAndSendTransaction(
+                    account,
+                    batch.receiverAccountId,
+                    batch.nearActions,
+                  ),
+                };
+              } catch (e) {
+                return { ok: false, error: new Error(e as string) };
+              }
+            })();
+          if (!sendResult.ok) {
+            await reservationsResult.value.release();
+            return {
+              content: [{ type: 'text', text: `Error: ${sendResult.error}` }],
+            };
+          }
+          // the deposits of a failed transaction are refunded
+          if (isFailedOutcome(sendResult.value)) {
+            await reservationsResult.value.release();
+          }
+          return withOutcomes(
+            {
+              content: [
+                {
+                  type: 'text',
+                  text: formatOutcome(
+                    args.networkId,
+                    sendResult.value,
+                    args.rawOutcome,
+                  ),
+                },
+              ],
+            },
+            sendResult.value,
+          );
+        },
+        batch.equivalentTools,
+      );
+    },
+  );
+
+  registerTool(
+    'transaction_sign',
+    noLeadingWhitespace`
+    Sign a transaction of one or more actions without broadcasting it, e.g. to be broadcast
+    later or from another machine with transaction_broadcast. Returns the borsh serialized
+    SignedTransaction, base64 encoded, and its hash. The nonce and the block hash are fetched
+    from the network unless given. The transaction expires about a day after its block.`,
+    {
+      signerAccountId: z.string(),
+      receiverAccountId: z
+        .string()
+        .describe(
+          'The account receiving all the actions, or the name of a contact of the address book.',
+        ),
+      actions: TransactionActionsSchema.describe(
+        'The actions of the transaction, applied in order.',
+      ),
+      networkId: networkIdSchema.default(defaultNetwork),
+      nonce: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(
+          'The nonce of the transaction, greater than the current nonce of the access key. The next nonce of the key when omitted, which no other transaction signed by the server uses.',
+        ),
+      blockHash: z
+        .string()
+        .optional()
+        .describe(
+          'The base58 hash of a recent block. The latest final block when omitted.',
+        ),
+    },
+    async (args, _) => {
+      const connection = await rpc.connect(args.networkId, keystore);
+      const batchResult = await prepareBatch(
+        connection,
+        args.networkId,
+        args.signerAccountId,
+        args.receiverAccountId,
+        args.actions,
+      );
+      if (!batchResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${batchResult.error}` }],
+        };
+      }
+      const batch = batchResult.value;
+      const signer: Result<MessageSigner, Error> = await getAccountSigner(
+        args.signerAccountId,
+        args.networkId,
+        keystore,
+      );
+      if (!signer.ok) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${signer.error}\n\nCannot find the account ${args.signerAccountId} in the keystore.`,
+            },
+          ],
+        };
+      }
+
+      return confirmTransaction(
+        { toolName: 'transaction_sign', ...batch.summary },
+        batch.spends,
+        async () => {
+          // a signed transaction can be broadcast at any time, so it counts
+          // towards the spending limits as soon as it is signed
+          const reservationsResult = await reserveSpends(batch.spends);
+          if (!reservationsResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${reservationsResult.error}` },
+              ],
+            };
+          }
+
+          const signResult: Result<
+            {
+              hash: string;
+              signedTransaction: string;
+              publicKey: string;
+              nonce: bigint;
+              blockHash: string;
+            },
+            Error
+          > = await (async () => {
+            try {
+              const publicKey = await signer.value.getPublicKey();
+              const nonce =
+                args.nonce !== undefined
+                  ? BigInt(args.nonce)
+                  : (
+                      await signingQueue.reserveNonce(
+                        await connection.account(args.signerAccountId),
+                      )
+                    ).nonce;
+              const blockHash =
+                args.blockHash ??
+                (
+                  await rpc
+                    .getProvider(args.networkId)
+                    .block({ finality: 'final' })
+                ).header.hash;
+              const { encodedTransactionHash, signedTransaction } =
+                await signTransaction({
+                  transaction: transactions.createTransaction(
+                    args.signerAccountId,
+                    publicKey,
+                    batch.receiverAccountId,
+                    nonce,
+                    batch.nearActions,
+                    base58.decode(blockHash),
+                  ),
+                  deps: { signer: signer.value },
+                });
+              return {
+                ok: true,
+                value: {
+                  hash: base58.encode(encodedTransactionHash),
+                  signedTransaction: Buffer.from(
+                    signedTransaction.encode(),
+                  ).toString('base64'),
+                  publicKey: publicKey.toString(),
+                  nonce,
+                  blockHash,
+                },
+              };
+            } catch (e) {
+              return { ok: false, error: new Error(e as string) };
+            }
+          })();
+          if (!signResult.ok) {
+            await reservationsResult.value.release();
+            return {
+              content: [{ type: 'text', text: `Error: ${signResult.error}` }],
+            };
+          }
+          // approved and reserved, so transaction_broadcast sends it as is
+          signingQueue.recordSignedTransaction(signResult.value.hash);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Transaction signed, not broadcast: ${stringify_bigint(signResult.value)}`,
+              },
+            ],
+          };
+        },
+        [...batch.equivalentTools, 'transaction_send_batch'],
+      );
+    },
+  );
+
+  registerTool(
+    'transaction_broadcast',
+    noLeadingWhitespace`
+    Broadcast a signed transaction and wait until it is executed. Transactions signed with
+    transaction_sign are sent as is. Other transactions must be signed for an account of the
+    keystore, and are checked against the address book and the spending limits, and approved,
+    like transaction_send_batch. Transactions of other accounts are rejected.`,
+    {
+      signedTransaction: z
+        .string()
+        .describe('The borsh serialized SignedTransaction, base64 encoded.'),
+      networkId: networkIdSchema.default(defaultNetwork),
+      waitUntil: z
+        .enum(['EXECUTED_OPTIMISTIC', 'EXECUTED', 'FINAL'])
+        .default('EXECUTED_OPTIMISTIC')
+        .describe(
+          'How final the execution of the transaction must be before returning.',
+        ),
+      rawOutcome: rawOutcomeSchema,
+    },
+    async (args, _) => {
+      const decodeResult: Result<
+        { signedTransaction: transactions.SignedTransaction; hash: string },
+        Error
+      > = (() => {
+        try {
+          const signedTransaction = transactions.SignedTransaction.decode(
+            Buffer.from(args.signedTransaction, 'base64'),
+          );
+          const hash = base58.encode(
+            createHash('sha256')
+              .update(
+                transactions.encodeTransaction(signedTransaction.transaction),
+              )
+              .digest(),
+          );
+          return { ok: true, value: { signedTransaction, hash } };
+        } catch (e) {
+          return {
+            ok: false,
+            error: new Error(`Invalid signed transaction: ${String(e)}`),
+          };
+        }
+      })();
+      if (!decodeResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${decodeResult.error}` }],
+        };
+      }
+      const { signedTransaction, hash } = decodeResult.value;
+      const { signerId, receiverId } = signedTransaction.transaction;
+
+      const broadcast = async (): Promise<
+        Result<FinalExecutionOutcome, Error>
+      > => {
+        try {
+          return {
+            ok: true,
+            value: await rpc
+              .getProvider(args.networkId)
+              .sendTransactionUntil(signedTransaction, args.waitUntil),
+          };
+        } catch (e) {
+          return { ok: false, error: new Error(e as string) };
+        }
+      };
+      const toContent = (outcome: FinalExecutionOutcome) =>
+        withOutcomes(
+          {
+            content: [
+              {
+                type: 'text',
+                text: formatOutcome(args.networkId, outcome, args.rawOutcome),
+              },
+            ],
+          },
+          outcome,
+        );
+
+      // approved and counted towards the limits when it was signed
+      if (signingQueue.isSignedTransaction(hash)) {
+        const broadcastResult = await broadcast();
+        if (!broadcastResult.ok) {
+          return {
+            content: [
+              { type: 'text', text: `Error: ${broadcastResult.error}` },
+            ],
+          };
+        }
+        return toContent(broadcastResult.value);
+      }
+
+      const keyPairResult = await getAccountKeyPair(
+        signerId,
+        args.networkId,
+        keystore,
+      );
+      if (!keyPairResult.ok || !keyPairResult.value) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: The transaction of ${signerId} was not signed by this server, and ${signerId} is not an account of the keystore on ${args.networkId}.`,
+            },
+          ],
+        };
+      }
+
+      const actionsResult = fromTransactionActions(
+        signedTransaction.transaction.actions,
+      );
+      if (!actionsResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${actionsResult.error}` }],
+        };
+      }
+      const connection = await rpc.connect(args.networkId, keystore);
+      const batchResult = await prepareBatch(
+        connection,
+        args.networkId,
+        signerId,
+        receiverId,
+        actionsResult.value,
+      );
+      if (!batchResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${batchResult.error}` }],
+        };
+      }
+      const batch = batchResult.value;
+
+      return confirmTransaction(
+        { toolName: 'transaction_broadcast', ...batch.summary },
+        batch.spends,
+        async () => {
+          const reservationsResult = await reserveSpends(batch.spends);
+          if (!reservationsResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${reservationsResult.error}` },
+              ],
+            };
+          }
+          const broadcastResult = await broadcast();
+          if (!broadcastResult.ok) {
+            await reservationsResult.value.release();
+            return {
+              content: [
+                { type: 'text', text: `Error: ${broadcastResult.error}` },
+              ],
+            };
+          }
+          // the deposits of a failed transaction are refunded
+          if (isFailedOutcome(broadcastResult.value)) {
+            await reservationsResult.value.release();
+          }
+          return toContent(broadcastResult.value);
+        },
+        [...batch.equivalentTools, 'transaction_send_batch'],
+      );
+    },
+  );
+
+  registerTool(
+    'transaction_sign_delegate',
+    noLeadingWhitespace`
+    Sign a NEP-366 delegate action, a meta transaction of one or more actions that a relayer
+    submits and pays the gas for, so the signer needs no NEAR for gas. Returns the borsh
+    serialized SignedDelegate, base64 encoded, to hand to the relayer, e.g. the
+    transaction_relay_delegate tool of another server. Deposits are still paid by the signer.`,
+    {
+      signerAccountId: z.string(),
+      receiverAccountId: z
+        .string()
+        .describe(
+          'The account receiving all the actions, or the name of a contact of the address book.',
+        ),
+      actions: TransactionActionsSchema.describe(
+        'The actions of the delegate action, applied in order.',
+      ),
+      networkId: networkIdSchema.default(defaultNetwork),
+      blockHeightTtl: z
+        .number()
+        .int()
+        .positive()
+        .default(120)
+        .describe(
+          'For how many blocks the delegate action can be relayed, about a second each.',
+        ),
+    },
+    async (args, _) => {
+      const connection = await rpc.connect(args.networkId, keystore);
+      const batchResult = await prepareBatch(
+        connection,
+        args.networkId,
+        args.signerAccountId,
+        args.receiverAccountId,
+        args.actions,
+      );
+      if (!batchResult.ok) {
         return {
-          content: [{ type: 'text', text: `Error: ${tokenOutMetadata.error}` }],
+          content: [{ type: 'text', text: `Error: ${batchResult.error}` }],
         };
       }
+      const batch = batchResult.value;
+
+      return confirmTransaction(
+        { toolName: 'transaction_sign_delegate', ...batch.summary },
+        batch.spends,
+        async () => {
+          const reservationsResult = await reserveSpends(batch.spends);
+          if (!reservationsResult.ok) {
+            return {
+              content: [
+                { type: 'text', text: `Error: ${reservationsResult.error}` },
+              ],
+            };
+          }
 
-      const estimateType = args.estimateType;
-      if (estimateType.type === 'byPoolId') {
-        const poolResult = await refFinanceGetPoolFromId(
-          connection,
-          estimateType.poolId,
-        );
-        if (!poolResult.ok) {
-          return {
-            content: [{ type: 'text', text: `Error: ${poolResult.error}` }],
-          };
-        }
-        const poolInfo = poolResult.value;
-
-        if (
-          !poolInfo.tokenIds.includes(tokenIn.accountId) ||
-          !poolInfo.tokenIds.includes(tokenOut.accountId)
-        ) {
+          const signResult: Result<
+            {
+              signedDelegate: string;
+              senderId: string;
+              receiverId: string;
+              publicKey: string;
+              nonce: bigint;
+              maxBlockHeight: bigint;
+            },
+            Error
+          > = await (async () => {
+            try {
+              const { provider, signer } = connection.connection;
+              // delegate actions use the nonces of the access key too
+              const { publicKey, nonce } = await signingQueue.reserveNonce(
+                await connection.account(args.signerAccountId),
+              );
+              const { header } = await provider.block({ finality: 'final' });
+              const delegateAction: DelegateAction = {
+                senderId: args.signerAccountId,
+                receiverId: batch.receiverAccountId,
+                actions: batch.nearActions,
+                nonce,
+                maxBlockHeight:
+                  BigInt(header.height) + BigInt(args.blockHeightTtl),
+                publicKey,
+              };
+              const { signature } = await signer.signMessage(
+                transactions.encodeDelegateAction(delegateAction),
+                args.signerAccountId,
+                args.networkId,
+              );
+              return {
+                ok: true,
+                value: {
+                  signedDelegate: Buffer.from(
+                    transactions.encodeSignedDelegate({
+                      delegateAction,
+                      signature: new transactions.Signature({
+                        keyType: publicKey.keyType,
+                        data: signature,
+                      }),
+                    }),
+                  ).toString('base64'),
+                  senderId: delegateAction.senderId,
+                  receiverId: delegateAction.receiverId,
+                  publicKey: delegateAction.publicKey.toString(),
+                  nonce: delegateAction.nonce,
+                  maxBlockHeight: delegateAction.maxBlockHeight,
+                },
+              };
+            } catch (e) {
+              return { ok: false, error: new Error(e as string) };
+            }
+          })();
+          if (!signResult.ok) {
+            await reservationsResult.value.release();
+            return {
+              content: [{ type: 'text', text: `Error: ${signResult.error}` }],
+            };
+          }
           return {
             content: [
               {
                 type: 'text',
-                text: `Error: Pool tokens [${poolInfo.tokenIds.join(', ')}] do not include ${args.tokenIn.contractId} or ${args.tokenOut.contractId}`,
+                text: `Delegate action signed, not relayed: ${stringify_bigint(signResult.value)}`,
               },
             ],
           };
-        }
-
-        // calculate the pool estimate
-        const poolEstimate = await refFinanceGetEstimate(
-          {
-            id: tokenIn.accountId,
-            metadata: tokenInMetadata.value,
-          },
-          {
-            id: tokenOut.accountId,
-            metadata: tokenOutMetadata.value,
-          },
-          poolInfo,
-          args.amount.toString(),
-        );
-        if (!poolEstimate.ok) {
-          return {
-            content: [{ type: 'text', text: `Error: ${poolEstimate.error}` }],
-          };
-        }
+        },
+        [...batch.equivalentTools, 'transaction_send_batch'],
+      );
+    },
+  );
 
+  registerTool(
+    'transaction_relay_delegate',
+    noLeadingWhitespace`
+    Relay the signed delegate action of another account: submit it in a transaction signed by
+    a relayer account of the keystore, which pays the gas. Only the senders, receivers and
+    methods allowed by the relayer policy of the server are sponsored.`,
+    {
+      relayerAccountId: z
+        .string()
+        .describe('The account of the keystore paying the gas.'),
+      signedDelegate: z
+        .string()
+        .describe('The borsh serialized SignedDelegate, base64 encoded.'),
+      networkId: networkIdSchema.default(defaultNetwork),
+      rawOutcome: rawOutcomeSchema,
+    },
+    async (args, _) => {
+      const { relayerPolicy } = options;
+      if (!relayerPolicy) {
         return {
           content: [
             {
               type: 'text',
-              text: `Pool info: ${stringify_bigint(poolEstimate.value)}`,
+              text: 'Error: This server does not relay delegate actions, no relayer policy is configured',
             },
           ],
         };
-      } else {
-        // convert the amount into the decimals of the fungible token
-        const amountInDecimals =
-          typeof args.amount === 'number'
-            ? BigInt(
-                Math.floor(args.amount * 10 ** tokenInMetadata.value.decimals),
-              )
-            : args.amount;
-
-        const smartRouteEstimate = await getSmartRouteRefSwapEstimate(
-          amountInDecimals.toString(),
-          tokenIn.accountId,
-          tokenOut.accountId,
-          estimateType.pathDepth,
-          estimateType.slippagePercent,
-        );
-        if (!smartRouteEstimate.ok) {
-          return {
-            content: [
-              { type: 'text', text: `Error: ${smartRouteEstimate.error}` },
-            ],
-          };
+      }
+      const delegateResult = decodeSignedDelegate(args.signedDelegate);
+      if (!delegateResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${delegateResult.error}` }],
+        };
+      }
+      const { summary: delegate, signatureValid } = delegateResult.value;
+      if (!signatureValid) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: The delegate action is not signed by ${delegate.publicKey}`,
+            },
+          ],
+        };
+      }
+      const policyResult = relayerPolicy.check(delegate);
+      if (!policyResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${policyResult.error}` }],
+        };
+      }
+      // an expired delegate action would still cost the relayer its fee
+      const blockResult: Result<bigint, Error> = await (async () => {
+        try {
+          const block = await rpc
+            .getProvider(args.networkId)
+            .block({ finality: 'final' });
+          return { ok: true, value: BigInt(block.header.height) };
+        } catch (e) {
+          return { ok: false, error: new Error(e as string) };
         }
-
+      })();
+      if (!blockResult.ok) {
+        return {
+          content: [{ type: 'text', text: `Error: ${blockResult.error}` }],
+        };
+      }
+      if (blockResult.value > delegate.maxBlockHeight) {
         return {
           content: [
             {
               type: 'text',
-              text: `Smart route estimate: ${stringify_bigint(
-                smartRouteEstimate.value,
-              )}`,
+              text: `Error: The delegate action expired at block ${delegate.maxBlockHeight}`,
             },
           ],
         };
       }
+
+      return confirmTransaction(
+        {
+          toolName: 'transaction_relay_delegate',
+          networkId: args.networkId,
+          signerAccountId: args.relayerAccountId,
+          receiverAccountId: delegate.senderId,
+          gas: delegate.actions.reduce(
+            (total, action) => total + (action.gas ?? 0n),
+            0n,
+          ),
+          details: [
+            `Sponsors the actions of ${delegate.senderId} to ${delegate.receiverId}:`,
+            ...delegate.actions.map(
+              (action, index) =>
+                `${index + 1}. ${action.type}` +
+                (action.methodName !== undefined
+                  ? ` ${action.methodName}`
+                  : ''),
+            ),
+          ].join('\n'),
+        },
+        [],
+        async () => {
+          const relayResult: Result<FinalExecutionOutcome, Error> =
+            await (async () => {
+              try {
+                const connection = await rpc.connect(args.networkId, keystore);
+                const relayer = await connection.account(args.relayerAccountId);
+                return {
+                  ok: true,
+                  value: await signingQueue.signAndSendTransaction(
+                    relayer,
+                    delegate.senderId,
+                    [delegateResult.value.action],
+                  ),
+                };
+              } catch (e) {
+                return { ok: false, error: new Error(e as string) };
+              }
+            })();
+          if (!relayResult.ok) {
+            return {
+              content: [{ type: 'text', text: `Error: ${relayResult.error}` }],
+            };
+          }
+          return withOutcomes(
+            {
+              content: [
+                {
+                  type: 'text',
+                  text: formatOutcome(
+                    args.networkId,
+                    relayResult.value,
+                    args.rawOutcome,
+                  ),
+                },
+              ],
+            },
+            relayResult.value,
+          );
+        },
+      );
     },
   );
 
-  mcp.tool(
-    'ref_finance_execute_swap',
+  registerTool(
+    'transaction_get_status',
     noLeadingWhitespace`
-    Execute a swap on Ref Finance based on two tokens and a pool id.
-    Prioritize pools with higher liquidity and better rates for the user.`,
+    Get the status of a transaction from its hash, including transactions sent outside of this server.
+    Returns the tree of its receipts with their executor, status, gas and tokens burnt, logs and failures.`,
     {
-      accountId: z
+      transactionHash: z.string().describe('The hash of the transaction.'),
+      signerAccountId: z
         .string()
-        .describe('The account id of the user doing the swap'),
-      tokenIn: z.object({
-        contractId: z
-          .string()
-          .describe('The contract id of the input token to be swapped'),
-        symbol: z.string().describe('The symbol of the input token'),
-      }),
-      tokenOut: z.object({
-        contractId: z
-          .string()
-          .describe('The contract id of the output token to be swapped'),
-        symbol: z.string().describe('The symbol of the output token'),
-      }),
-      amount: z
-        .union([
-          z
-            .number()
-            .describe(
-              'The amount of input tokens with decimal formatting (e.g., 1.5 wNEAR)',
-            ),
-          z
-            .bigint()
-            .describe(
-              'The amount in smallest denomination (e.g., yoctowNEAR for wNEAR, or equivalent for other tokens based on their decimals)',
-            ),
-        ])
-        .describe('The amount of the input tokens to swap'),
-      swapType: z
-        .union([
-          z.object({
-            type: z
-              .literal('bySmartRoute')
-              .describe(
-                'Get an estimate using the ref finance smart router to find the best pool',
-              ),
-            pathDepth: z
-              .number()
-              .default(3)
-              .describe('The depth of the path to search for the best pool'),
-            slippagePercent: z
-              .number()
-              .default(0.001)
-              .describe(
-                'The slippage to use for the estimate. Only use 0.001, 0.005, or 0.01',
-              ),
-          }),
-          z.object({
-            type: z
-              .literal('byPoolId')
-              .describe('Get an estimate using a specific pool id'),
-            poolId: z.number().describe('The pool id (e.g. 1)'),
-          }),
+        .describe('The account that signed the transaction.'),
+      networkId: networkIdSchema.default(defaultNetwork),
+      waitUntil: z
+        .enum([
+          'NONE',
+          'INCLUDED',
+          'EXECUTED_OPTIMISTIC',
+          'INCLUDED_FINAL',
+          'EXECUTED',
+          'FINAL',
         ])
-        .default({ type: 'bySmartRoute' })
+        .default('EXECUTED_OPTIMISTIC')
         .describe(
-          'The type of estimate to get. Defaults to the ref finance smart router to find the best price over all available pools',
+          'How far the transaction must have progressed before its status is returned.',
         ),
-      networkId: z.enum(['testnet', 'mainnet']).default('mainnet'),
     },
     async (args, _) => {
-      if (args.tokenIn === args.tokenOut) {
+      const statusResult: Result<FinalExecutionOutcome, Error> =
+        await (async () => {
+          try {
+            return {
+              ok: true,
+              value: await rpc
+                .getProvider(args.networkId)
+                .txStatusReceipts(
+                  args.transactionHash,
+                  args.signerAccountId,
+                  args.waitUntil,
+                ),
+            };
+          } catch (e) {
+            return { ok: false, error: new Error(e as string) };
+          }
+        })();
+      if (!statusResult.ok) {
         return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: Token in and token out cannot be the same`,
-            },
-          ],
+          content: [{ type: 'text', text: `Error: ${statusResult.error}` }],
         };
       }
+      return {
+        content: [
+          { type: 'text', text: formatTransactionStatus(statusResult.value) },
+        ],
+      };
+    },
+  );
 
-      const connection = await connect({
-        networkId: args.networkId,
-        keyStore: keystore,
-        nodeUrl: getEndpointsByNetwork(args.networkId)[0]!,
-      });
+  registerTool(
+    'transaction_list_pending',
+    noLeadingWhitespace`
+    List the transactions waiting for the approval of the user, with their summary.`,
+    {},
+    (_args, _) => {
+      const transactions = pendingTransactions.list();
+      if (transactions.length === 0) {
+        return {
+          content: [{ type: 'text', text: 'No pending transactions' }],
+        };
+      }
+      return {
+        content: transactions.map((transaction) => ({
+          type: 'text',
+          text: `${transaction.id}\n${formatTransactionSummary(transaction.summary)}`,
+        })),
+      };
+    },
+  );
 
-      const tokenInContractAccountResult = await getAccount(
-        args.tokenIn.contractId,
-        connection,
-      );
-      if (!tokenInContractAccountResult.ok) {
+  registerTool(
+    'transaction_approve',
+    noLeadingWhitespace`
+    Approve a pending transaction, which is then signed and broadcast.
+    Only call this tool once the user has explicitly approved the transaction
+    after being shown its summary. Never approve a transaction on your own.`,
+    {
+      transactionId: z.string().describe('The id of the pending transaction.'),
+    },
+    async (args, _) => {
+      const transactionResult = pendingTransactions.take(args.transactionId);
+      if (!transactionResult.ok) {
         return {
           content: [
-            {
-              type: 'text',
-              text: `Error: ${tokenInContractAccountResult.error}`,
-            },
+            { type: 'text', text: `Error: ${transactionResult.error}` },
           ],
         };
       }
-      const tokenIn = tokenInContractAccountResult.value;
+      return transactionResult.value.execute();
+    },
+  );
 
-      const tokenOutContractAccountResult = await getAccount(
-        args.tokenOut.contractId,
-        connection,
-      );
-      if (!tokenOutContractAccountResult.ok) {
+  registerTool(
+    'transaction_reject',
+    noLeadingWhitespace`
+    Reject a pending transaction, which is dropped without being signed.`,
+    {
+      transactionId: z.string().describe('The id of the pending transaction.'),
+    },
+    (args, _) => {
+      const transactionResult = pendingTransactions.take(args.transactionId);
+      if (!transactionResult.ok) {
         return {
           content: [
-            {
-              type: 'text',
-              text: `Error: ${tokenOutContractAccountResult.error}`,
-            },
+            { type: 'text', text: `Error: ${transactionResult.error}` },
           ],
         };
       }
-      const tokenOut = tokenOutContractAccountResult.value;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Transaction rejected: ${args.transactionId}`,
+          },
+        ],
+      };
+    },
+  );
 
-      const tokenInMetadata = await getFungibleTokenContractMetadataResult(
-        tokenIn.accountId,
-        connection,
-      );
-      if (!tokenInMetadata.ok) {
-        return {
-          content: [{ type: 'text', text: `Error: ${tokenInMetadata.error}` }],
-        };
-      }
-      const tokenOutMetadata = await getFungibleTokenContractMetadataResult(
-        tokenOut.accountId,
-        connection,
+  for (const contract of options.contractTools ?? []) {
+    const registerResult = await registerContract(contract);
+    if (!registerResult.ok) {
+      console.error(
+        `Failed to register the tools of ${contract.contractId}: ${registerResult.error.message}`,
       );
-      if (!tokenOutMetadata.ok) {
-        return {
-          content: [{ type: 'text', text: `Error: ${tokenOutMetadata.error}` }],
-        };
-      }
+    }
+  }
 
-      // convert the amount into the decimals of the fungible token
-      const amountInDecimals =
-        typeof args.amount === 'number'
-          ? BigInt(
-              Math.floor(args.amount * 10 ** tokenInMetadata.value.decimals),
-            )
-          : args.amount;
+  return mcp;
+};
 
-      const swapType = args.swapType;
-      if (swapType.type === 'byPoolId') {
-        const poolResult = await refFinanceGetPoolFromId(
-          connection,
-          swapType.poolId,
-        );
-        if (!poolResult.ok) {
+export type ServerTransport = (typeof SERVER_TRANSPORTS)[number];
+
+export type RunMcpServerOptions = Omit<CreateMcpServerOptions, 'rpc'> & {
+  transport?: ServerTransport;
+  // port of the HTTP server, ignored by the stdio transport
+  port?: number;
+  // credentials required by the HTTP transports, open access when omitted
+  auth?: AuthConfig;
+  // unlocks the server keystore and the principal keystores configured as
+  // encrypted, keystores are unencrypted when omitted
+  keystorePassphrase?: string;
+  // RPC endpoints of the networks, the public endpoints when omitted
+  rpc?: RpcConfig;
+  // the lowest level of the log messages sent to clients
+  logLevel?: LoggingLevel;
+  // Streamable HTTP sessions without a request for this long are closed,
+  // in milliseconds
+  sessionIdleTimeout?: number;
+};
+
+const sendLogMessage = async (
+  mcp: McpServer,
+  logLevel: LoggingLevel,
+  level: LoggingLevel,
+  message: string,
+) => {
+  const levels = LoggingLevelSchema.options;
+  if (levels.indexOf(level) < levels.indexOf(logLevel)) {
+    return;
+  }
+  await mcp.server.sendLoggingMessage({ level, data: { message } });
+};
+
+// An authenticated session may only be used by the principal that opened it
+const isSamePrincipal = (a?: AuthPrincipal, b?: AuthPrincipal) =>
+  a?.kind === b?.kind && a?.name === b?.name;
+
+export type SessionMcpServerFactory = (principal?: AuthPrincipal) => Promise<{
+  mcp: McpServer;
+  // where the keys of the session are stored, for logging
+  keystoreLocation: string;
+}>;
+
+// Sessions are bound to the keystore of their principal, so a tenant can
+// never list or sign with the accounts of another tenant. Keystores are
+// kept per principal so they outlive a single session, and the keystore of
+// a directory is only opened once, deriving its encryption key once.
+export const createSessionMcpServerFactory = async (
+  keystore: KeyStore,
+  keystorePath: string,
+  serverOptions: CreateMcpServerOptions,
+  auth?: AuthConfig,
+  keystorePassphrase?: string,
+): Promise<Result<SessionMcpServerFactory, Error>> => {
+  const memoryKeystores = new Map<string, KeyStore>();
+  const directoryKeystores = new Map<
+    string,
+    Promise<Result<KeyStore, Error>>
+  >();
+  const openDirectoryKeystore = (
+    binding: Extract<KeystoreBinding, { type: 'directory' }>,
+  ): Promise<Result<KeyStore, Error>> => {
+    const keyDir = path.resolve(binding.path);
+    const cacheKey = `${binding.encrypted}:${keyDir}`;
+    const cached = directoryKeystores.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+    // principal keystores are only encrypted when the config says so
+    const keystoreResult: Promise<Result<KeyStore, Error>> = !binding.encrypted
+      ? openKeystore(keyDir)
+      : keystorePassphrase === undefined
+        ? Promise.resolve({
+            ok: false,
+            error: new Error(
+              `Keystore ${keyDir} is encrypted with the passphrase of the server keystore, which is not encrypted`,
+            ),
+          })
+        : openKeystore(keyDir, keystorePassphrase);
+    directoryKeystores.set(cacheKey, keystoreResult);
+    // a failed open is retried by the next session
+    void keystoreResult.then((result) => {
+      if (!result.ok) {
+        directoryKeystores.delete(cacheKey);
+      }
+    });
+    return keystoreResult;
+  };
+
+  // the keystores of API keys are known up front, fail before serving
+  for (const apiKey of auth?.apiKeys ?? []) {
+    const binding = getApiKeyPrincipal(auth!, apiKey).keystore;
+    if (binding?.type !== 'directory') {
+      continue;
+    }
+    const keystoreResult = await openDirectoryKeystore(binding);
+    if (!keystoreResult.ok) {
+      return {
+        ok: false,
+        error: new Error(
+          `Failed to open the keystore of ${apiKey.name}: ${keystoreResult.error.message}`,
+        ),
+      };
+    }
+  }
+
+  return {
+    ok: true,
+    value: async (principal) => {
+      // the tools of a principal further restrict the tools of the server
+      const serverToolFilter = serverOptions.toolFilter;
+      const principalTools = principal?.allowedTools;
+      const options: CreateMcpServerOptions = {
+        ...serverOptions,
+        principal: principal && getPrincipalId(principal),
+        // remote sessions only use the files of their own keystore directory
+        fileRoot: false,
+        toolFilter: principalTools
+          ? (toolName: string) =>
+              (!serverToolFilter || serverToolFilter(toolName)) &&
+              matchesToolPatterns(toolName, principalTools)
+          : serverToolFilter,
+      };
+      const binding = principal?.keystore;
+      switch (binding?.type) {
+        case 'memory': {
+          const principalId = getPrincipalId(principal!);
+          const keystore =
+            memoryKeystores.get(principalId) ?? new InMemoryKeyStore();
+          memoryKeystores.set(principalId, keystore);
           return {
-            content: [{ type: 'text', text: `Error: ${poolResult.error}` }],
+            mcp: await createMcpServer(keystore, options),
+            keystoreLocation: 'in-memory keystore',
           };
         }
-        const poolInfo = poolResult.value;
-
-        if (
-          !poolInfo.tokenIds.includes(tokenIn.accountId) ||
-          !poolInfo.tokenIds.includes(tokenOut.accountId)
-        ) {
+        case 'directory': {
+          const keystoreResult = await openDirectoryKeystore(binding);
+          if (!keystoreResult.ok) {
+            throw keystoreResult.error;
+          }
           return {
-            content: [
-              {
-                type: 'text',
-                text: `Error: Pool tokens [${poolInfo.tokenIds.join(', ')}] do not include ${args.tokenIn.contractId} or ${args.tokenOut.contractId}`,
-              },
-            ],
+            mcp: await createMcpServer(keystoreResult.value, {
+              ...options,
+              fileRoot: binding.path,
+            }),
+            keystoreLocation: binding.path,
           };
         }
-
-        // calculate the pool estimate
-        const poolEstimate = await refFinanceGetEstimate(
-          {
-            id: tokenIn.accountId,
-            metadata: tokenInMetadata.value,
-          },
-          {
-            id: tokenOut.accountId,
-            metadata: tokenOutMetadata.value,
-          },
-          poolInfo,
-          args.amount.toString(),
-        );
-        if (!poolEstimate.ok) {
+        default:
           return {
-            content: [{ type: 'text', text: `Error: ${poolEstimate.error}` }],
+            mcp: await createMcpServer(keystore, options),
+            keystoreLocation: keystorePath,
           };
-        }
+      }
+    },
+  };
+};
 
-        // execute swap
-        const swapResult = await executeRefSwap(
-          connection,
-          args.accountId,
-          tokenIn,
-          amountInDecimals.toString(),
-          [
-            {
-              pool_id: poolInfo.id,
-              token_in: tokenIn.accountId,
-              amount_out: '0',
-              token_out: tokenOut.accountId,
-              min_amount_out: poolEstimate.value.estimate,
-            },
-          ],
-        );
+const mountSseEndpoints = (
+  app: express.Express,
+  createSessionMcpServer: SessionMcpServerFactory,
+  logLevel: LoggingLevel,
+) => {
+  // Store all active SSE transports
+  const sessions = new Map<
+    string,
+    { transport: SSEServerTransport; principal?: AuthPrincipal }
+  >();
+
+  // SSE endpoint for clients
+  app.get('/sse', async (req: Request, res: Response) => {
+    try {
+      // Create a new transport to handle the client connection
+      const transport = new SSEServerTransport('/messages', res);
+      const sessionId = transport.sessionId;
+      const principal = getRequestPrincipal(res);
+
+      sessions.set(sessionId, { transport, principal });
+      console.log(
+        `SSE client connected: ${sessionId}${principal ? ` (${principal.name})` : ''}`,
+      );
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Swap result: ${stringify_bigint(swapResult)}`,
-            },
-          ],
-        };
-      } else {
-        const smartRouteEstimate = await getSmartRouteRefSwapEstimate(
-          amountInDecimals.toString(),
-          tokenIn.accountId,
-          tokenOut.accountId,
-          swapType.pathDepth,
-          swapType.slippagePercent,
+      // Set up cleanup when the connection closes
+      req.on('close', () => {
+        console.log(`SSE client disconnected: ${sessionId}`);
+        sessions.delete(sessionId);
+      });
+
+      // Connect the transport to a MCP server for this session, since
+      // a server can only be connected to a single transport at a time
+      const { mcp, keystoreLocation } = await createSessionMcpServer(principal);
+      await mcp.connect(transport);
+
+      await sendLogMessage(
+        mcp,
+        logLevel,
+        'info',
+        'NEAR MCP server started with SSE transport...',
+      );
+      await sendLogMessage(
+        mcp,
+        logLevel,
+        'info',
+        `Using NEAR keystore at: ${keystoreLocation}`,
+      );
+    } catch (error) {
+      console.error('Error handling SSE connection:', error);
+      res.status(500).send('Error establishing SSE connection');
+    }
+  });
+
+  // Handle POST messages for SSE clients
+  app.post('/messages', async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.query.sessionId as string;
+      if (!sessionId) {
+        console.error('No session ID provided in request URL');
+        res.status(400).send('Missing sessionId parameter');
+        return;
+      }
+
+      const session = sessions.get(sessionId);
+      if (!session) {
+        console.error(
+          `No active SSE connection found for session: ${sessionId}`,
         );
+        return res
+          .status(400)
+          .json({ error: 'No active SSE connection found for this session' });
+      }
+      if (!isSamePrincipal(session.principal, getRequestPrincipal(res))) {
+        return res
+          .status(403)
+          .json({ error: 'Session belongs to another principal' });
+      }
 
-        if (!smartRouteEstimate.ok) {
-          return {
-            content: [
-              { type: 'text', text: `Error: ${smartRouteEstimate.error}` },
-            ],
-          };
+      await session.transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      console.error('Error handling message:', error);
+      res.status(500).json({
+        error: 'Failed to process message',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+};
+
+const sendJsonRpcError = (res: Response, status: number, message: string) => {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+};
+
+const mountStreamableHttpEndpoints = (
+  app: express.Express,
+  createSessionMcpServer: SessionMcpServerFactory,
+  sessionIdleTimeout: number,
+) => {
+  // Store all active Streamable HTTP transports by session id
+  const sessions = new Map<
+    string,
+    {
+      transport: StreamableHTTPServerTransport;
+      principal?: AuthPrincipal;
+      // the time of the last request of the session
+      lastActiveAt: number;
+    }
+  >();
+
+  // clients may vanish without ending their session, so idle sessions are
+  // closed instead of being kept for the lifetime of the process
+  setInterval(
+    () => {
+      const now = Date.now();
+      for (const [sessionId, session] of sessions) {
+        if (now - session.lastActiveAt > sessionIdleTimeout) {
+          console.log(`Streamable HTTP session expired: ${sessionId}`);
+          sessions.delete(sessionId);
+          session.transport.close().catch((error: unknown) => {
+            console.error(`Error closing session ${sessionId}:`, error);
+          });
         }
+      }
+    },
+    Math.min(sessionIdleTimeout, 60 * 1000),
+  ).unref();
+
+  const getSession = (req: Request, res: Response) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, 'Missing mcp-session-id header');
+      return undefined;
+    }
+    const session = sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+      return undefined;
+    }
+    if (!isSamePrincipal(session.principal, getRequestPrincipal(res))) {
+      sendJsonRpcError(res, 403, 'Session belongs to another principal');
+      return undefined;
+    }
+    session.lastActiveAt = Date.now();
+    return session;
+  };
 
-        // execute swap
-        const swapResult = await executeRefSwap(
-          connection,
-          args.accountId,
-          tokenIn,
-          amountInDecimals.toString(),
-          refSwapEstimateToActions(smartRouteEstimate.value),
-        );
-        if (!swapResult.ok) {
-          return {
-            content: [{ type: 'text', text: `Error: ${swapResult.error}` }],
-          };
+  // Each session gets its own MCP server instance, since a server
+  // can only be connected to a single transport at a time
+  app.post('/mcp', async (req: Request, res: Response) => {
+    try {
+      if (req.headers['mcp-session-id']) {
+        const session = getSession(req, res);
+        if (session) {
+          await session.transport.handleRequest(req, res, req.body);
         }
+        return;
+      }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Swap result: ${stringify_bigint(swapResult.value)}`,
-            },
-          ],
-        };
+      if (!isInitializeRequest(req.body)) {
+        sendJsonRpcError(
+          res,
+          400,
+          'Bad Request: No valid session ID provided for a non-initialize request',
+        );
+        return;
       }
-    },
-  );
 
-  return mcp;
+      const principal = getRequestPrincipal(res);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        // keep a per-session event store so clients can resume dropped streams
+        eventStore: new InMemoryEventStore(),
+        onsessioninitialized: (newSessionId) => {
+          console.log(
+            `Streamable HTTP session initialized: ${newSessionId}${principal ? ` (${principal.name})` : ''}`,
+          );
+          sessions.set(newSessionId, {
+            transport,
+            principal,
+            lastActiveAt: Date.now(),
+          });
+        },
+      });
+
+      const { mcp: sessionMcp } = await createSessionMcpServer(principal);
+      sessionMcp.server.onclose = () => {
+        if (transport.sessionId) {
+          console.log(`Streamable HTTP session closed: ${transport.sessionId}`);
+          sessions.delete(transport.sessionId);
+        }
+      };
+      await sessionMcp.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error('Error handling Streamable HTTP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  // GET opens (or resumes, via Last-Event-ID) the server-to-client stream,
+  // DELETE ends the session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    try {
+      const session = getSession(req, res);
+      if (session) {
+        await session.transport.handleRequest(req, res);
+      }
+    } catch (error) {
+      console.error('Error handling Streamable HTTP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  };
+  app.get('/mcp', handleSessionRequest);
+  app.delete('/mcp', handleSessionRequest);
 };
 
 export async function runMcpServer(
   keystorePath?: string,
-  remote = false,
-  port = 3001,
+  options?: RunMcpServerOptions,
+): Promise<void>;
+/**
+ * @deprecated pass the transport and the port in the options, a remote
+ * server is `{ transport: 'sse', port }`
+ */
+export async function runMcpServer(
+  keystorePath: string | undefined,
+  remote: boolean,
+  port?: number,
+): Promise<void>;
+export async function runMcpServer(
+  keystorePath?: string,
+  optionsOrRemote: RunMcpServerOptions | boolean = {},
+  legacyPort?: number,
 ) {
+  // the original signature, where a remote server served the SSE endpoints
+  const options: RunMcpServerOptions =
+    typeof optionsOrRemote === 'boolean'
+      ? { transport: optionsOrRemote ? 'sse' : 'stdio', port: legacyPort }
+      : optionsOrRemote;
+  const {
+    transport = 'stdio',
+    port = 3001,
+    auth,
+    keystorePassphrase,
+    logLevel = 'info',
+    sessionIdleTimeout = DEFAULT_SESSION_IDLE_TIMEOUT,
+  } = options;
+  // providers are shared by every session so failover state is kept
+  const rpc = createRpcProviders(options.rpc);
+  // the ABIs are fetched once, not by every session
+  const contractTools: ContractTools[] = [];
+  for (const contract of options.contractTools ?? []) {
+    const networkId = contract.networkId ?? options.defaultNetwork ?? 'mainnet';
+    if (!getNetworkIds(rpc.networks).includes(networkId)) {
+      // the server reports the unknown network
+      contractTools.push(contract);
+      continue;
+    }
+    const functionsResult = await fetchContractFunctions(
+      rpc,
+      contract.contractId,
+      networkId,
+      contract.methods,
+    );
+    if (!functionsResult.ok) {
+      console.error(
+        `Failed to register the tools of ${contract.contractId}: ${functionsResult.error.message}`,
+      );
+      continue;
+    }
+    contractTools.push({ ...contract, functions: functionsResult.value });
+  }
+  const serverOptions: CreateMcpServerOptions = {
+    toolFilter: options.toolFilter,
+    rpc,
+    defaultNetwork: options.defaultNetwork,
+    defaultGas: options.defaultGas,
+    contracts: options.contracts,
+    readOnly: options.readOnly,
+    spendingPolicy: options.spendingPolicy,
+    addressBook: options.addressBook,
+    approvalPolicy: options.approvalPolicy,
+    auditLog: options.auditLog,
+    relayerPolicy: options.relayerPolicy,
+    signingQueue: options.signingQueue ?? createSigningQueue(),
+    contractTools,
+  };
   const actualKeystorePath =
     keystorePath || path.join(homedir(), '.near-keystore');
-  const mcp = await createMcpServer(actualKeystorePath);
+  const keystoreResult = await openKeystore(
+    actualKeystorePath,
+    keystorePassphrase,
+  );
+  if (!keystoreResult.ok) {
+    throw keystoreResult.error;
+  }
+  const keystore = keystoreResult.value;
 
-  if (remote) {
+  if (transport !== 'stdio') {
     // Use HTTP transport for remote connections
     console.log(`Starting NEAR MCP server on port ${port}...`);
 
     const app = express();
-    app.use(express.json());
-
-    // Store all active SSE transports
-    const transports = new Map<string, SSEServerTransport>();
-
-    // SSE endpoint for clients
-    app.get('/sse', async (req: Request, res: Response) => {
-      try {
-        // Create a new transport to handle the client connection
-        const transport = new SSEServerTransport('/messages', res);
-        const sessionId = transport.sessionId;
-
-        transports.set(sessionId, transport);
-        console.log(`SSE client connected: ${sessionId}`);
-
-        // Set up cleanup when the connection closes
-        req.on('close', () => {
-          console.log(`SSE client disconnected: ${sessionId}`);
-          transports.delete(sessionId);
-        });
-
-        // Connect the transport to MCP server
-        await mcp.connect(transport);
 
-        await mcp.server.sendLoggingMessage({
-          level: 'info',
-          data: {
-            message: 'NEAR MCP server started with SSE transport...',
-          },
-        });
-
-        await mcp.server.sendLoggingMessage({
-          level: 'info',
-          data: {
-            message: `Using NEAR keystore at: ${actualKeystorePath}`,
-          },
-        });
-      } catch (error) {
-        console.error('Error handling SSE connection:', error);
-        res.status(500).send('Error establishing SSE connection');
-      }
-    });
-
-    // Handle POST messages for SSE clients
-    app.post('/messages', async (req: Request, res: Response) => {
-      try {
-        const sessionId = req.query.sessionId as string;
-        if (!sessionId) {
-          console.error('No session ID provided in request URL');
-          res.status(400).send('Missing sessionId parameter');
-          return;
-        }
-
-        const transport = transports.get(sessionId);
-        if (!transport) {
-          console.error(
-            `No active SSE connection found for session: ${sessionId}`,
-          );
-          return res
-            .status(400)
-            .json({ error: 'No active SSE connection found for this session' });
-        }
+    // reject unauthenticated requests before their body is parsed or any
+    // transport is created
+    if (auth && isAuthEnabled(auth)) {
+      app.use(['/sse', '/messages', '/mcp'], createAuthMiddleware(auth));
+    } else {
+      console.warn(
+        'No API keys or token secret configured, the server accepts unauthenticated connections',
+      );
+    }
+    app.use(express.json());
 
-        await transport.handlePostMessage(req, res, req.body);
-      } catch (error) {
-        console.error('Error handling message:', error);
-        res.status(500).json({
-          error: 'Failed to process message',
-          message: error instanceof Error ? error.message : String(error),
-        });
-      }
-    });
+    // the legacy SSE endpoints are always served for older clients
+    const sessionFactoryResult = await createSessionMcpServerFactory(
+      keystore,
+      actualKeystorePath,
+      serverOptions,
+      auth,
+      keystorePassphrase,
+    );
+    if (!sessionFactoryResult.ok) {
+      throw sessionFactoryResult.error;
+    }
+    const createSessionMcpServer = sessionFactoryResult.value;
+    mountSseEndpoints(app, createSessionMcpServer, logLevel);
+    if (transport === 'streamable-http') {
+      mountStreamableHttpEndpoints(
+        app,
+        createSessionMcpServer,
+        sessionIdleTimeout,
+      );
+    }
 
     // Start the server
     app.listen(port, () => {
       console.log(`NEAR MCP server listening on port ${port}`);
+      if (transport === 'streamable-http') {
+        console.log(`Streamable HTTP endpoint: http://localhost:${port}/mcp`);
+      }
       console.log(`SSE endpoint: http://localhost:${port}/sse`);
       console.log(`Message endpoint: http://localhost:${port}/messages`);
     });
   } else {
     // Use stdio transport (default)
-    const transport = new StdioServerTransport();
-    await mcp.connect(transport);
-
-    await mcp.server.sendLoggingMessage({
-      level: 'info',
-      data: {
-        message: 'NEAR MCP server started with stdio transport...',
-      },
-    });
-
-    await mcp.server.sendLoggingMessage({
-      level: 'info',
-      data: {
-        message: `Using NEAR keystore at: ${actualKeystorePath}`,
-      },
-    });
+    const mcp = await createMcpServer(keystore, serverOptions);
+    const stdioTransport = new StdioServerTransport();
+    await mcp.connect(stdioTransport);
+
+    await sendLogMessage(
+      mcp,
+      logLevel,
+      'info',
+      'NEAR MCP server started with stdio transport...',
+    );
+    await sendLogMessage(
+      mcp,
+      logLevel,
+      'info',
+      `Using NEAR keystore at: ${actualKeystorePath}`,
+    );
   }
 }
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+
+import { InMemoryKeyStore } from '@near-js/keystores';
+import { type FinalExecutionOutcome } from '@near-js/types';
+import assert from 'assert/strict';
+import base58 from 'bs58';
+import {
+  type Account,
+  InMemorySigner,
+  KeyPair,
+  transactions,
+} from 'near-api-js';
+
+import { createSigningQueue, isFailedOutcome } from './signing-queue';
+
+const failure = {
+  status: { Failure: { ActionError: { index: 0, kind: {} } } },
+} as unknown as FinalExecutionOutcome;
+const success = {
+  status: { SuccessValue: '' },
+} as unknown as FinalExecutionOutcome;
+
+// an account whose provider answers with the given outcomes or errors
+const createAccount = async (
+  responses: (FinalExecutionOutcome | Error)[],
+  chainNonce = 5,
+) => {
+  const keystore = new InMemoryKeyStore();
+  await keystore.setKey(
+    'testnet',
+    'alice.testnet',
+    KeyPair.fromRandom('ed25519'),
+  );
+  const nonces: bigint[] = [];
+  let accessKeyQueries = 0;
+  const provider = {
+    query: async () => {
+      accessKeyQueries++;
+      return { nonce: chainNonce };
+    },
+    block: async () => ({
+      header: { hash: base58.encode(new Uint8Array(32)) },
+    }),
+    sendTransaction: async (
+      signedTransaction: transactions.SignedTransaction,
+    ) => {
+      nonces.push(signedTransaction.transaction.nonce);
+      const response = responses.shift();
+      if (response === undefined || response instanceof Error) {
+        throw response ?? new Error('No response');
+      }
+      return response;
+    },
+  };
+  const account = {
+    accountId: 'alice.testnet',
+    connection: {
+      networkId: 'testnet',
+      provider,
+      signer: new InMemorySigner(keystore),
+    },
+  } as unknown as Account;
+  return { account, nonces, getAccessKeyQueries: () => accessKeyQueries };
+};
+
+const nonceError = () =>
+  Object.assign(new Error('Invalid nonce'), { type: 'InvalidNonce' });
+
+describe('createSigningQueue', () => {
+  it('returns an outcome that failed on chain', async () => {
+    const { account } = await createAccount([failure]);
+    const outcome = await createSigningQueue().signAndSendTransaction(
+      account,
+      'bob.testnet',
+      [transactions.transfer(1n)],
+    );
+    assert.ok(isFailedOutcome(outcome));
+  });
+
+  it('hands out consecutive nonces without fetching them again', async () => {
+    const { account, nonces, getAccessKeyQueries } = await createAccount([
+      success,
+      success,
+    ]);
+    const signingQueue = createSigningQueue();
+    await Promise.all([
+      signingQueue.signAndSendTransaction(account, 'bob.testnet', [
+        transactions.transfer(1n),
+      ]),
+      signingQueue.signAndSendTransaction(account, 'bob.testnet', [
+        transactions.transfer(1n),
+      ]),
+    ]);
+    assert.deepEqual(nonces.sort(), [6n, 7n]);
+    assert.equal(getAccessKeyQueries(), 1);
+  });
+
+  it('fetches the nonce again after an invalid nonce', async () => {
+    const { account, nonces, getAccessKeyQueries } = await createAccount([
+      nonceError(),
+      success,
+    ]);
+    const outcome = await createSigningQueue().signAndSendTransaction(
+      account,
+      'bob.testnet',
+      [transactions.transfer(1n)],
+    );
+    assert.ok(!isFailedOutcome(outcome));
+    assert.deepEqual(nonces, [6n, 7n]);
+    assert.equal(getAccessKeyQueries(), 2);
+  });
+
+  it('throws transport errors', async () => {
+    const { account } = await createAccount([new Error('Connection reset')]);
+    await assert.rejects(
+      createSigningQueue().signAndSendTransaction(account, 'bob.testnet', [
+        transactions.transfer(1n),
+      ]),
+      /Connection reset/,
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { type PublicKey } from '@near-js/crypto';
+import { type AccessKeyView, type FinalExecutionOutcome } from '@near-js/types';
+import base58 from 'bs58';
+import { type Account, transactions } from 'near-api-js';
+
+// attempts of a transaction rejected for its nonce or an expired block hash
+const MAX_ATTEMPTS = 10;
+const RETRY_DELAY_MS = 500;
+// a transaction expires about a day after its block
+const SIGNED_TRANSACTION_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+
+export type ReservedNonce = {
+  // the key of the keystore signing for the account
+  publicKey: PublicKey;
+  nonce: bigint;
+};
+
+export type SigningQueue = {
+  // sign with the next nonce of the key of the account, then send the
+  // transaction and wait for its outcome, which may be a failure
+  signAndSendTransaction: (
+    account: Account,
+    receiverId: string,
+    actions: transactions.Action[],
+  ) => Promise<FinalExecutionOutcome>;
+  // the next nonce of the key, for transactions and delegate actions that
+  // are signed but not sent by the server
+  reserveNonce: (account: Account) => Promise<ReservedNonce>;
+  // remember the hash of a transaction signed but not sent by the server,
+  // which was approved and counted towards the spending limits
+  recordSignedTransaction: (hash: string) => void;
+  isSignedTransaction: (hash: string) => boolean;
+};
+
+type KeyState = {
+  // the last nonce used, unknown until the access key is fetched
+  nonce?: bigint;
+  // nonces are handed out one at a time
+  lock: Promise<void>;
+};
+
+// whether the transaction failed on chain, its deposits are refunded
+export const isFailedOutcome = (outcome: FinalExecutionOutcome) =>
+  typeof outcome.status === 'object' &&
+  outcome.status.Failure !== undefined &&
+  outcome.status.Failure !== null;
+
+const getErrorType = (e: unknown) =>
+  typeof e === 'object' && e !== null && 'type' in e ? e.type : undefined;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Create the queue signing the transactions of every session. Nonces are
+ * tracked locally per access key, so concurrent transactions signed with
+ * the same key no longer collide, and the nonce is only fetched again
+ * after the network rejected it.
+ */
+export const createSigningQueue = (): SigningQueue => {
+  const keys = new Map<string, KeyState>();
+  // the hashes of the signed transactions, with the time they were signed
+  const signedTransactions = new Map<string, number>();
+
+  const getPublicKey = async (account: Account) => {
+    const { signer, networkId } = account.connection;
+    const publicKey = await signer.getPublicKey(account.accountId, networkId);
+    if (!publicKey) {
+      throw new Error(
+        `No key of ${account.accountId} on ${networkId} in the keystore`,
+      );
+    }
+    return publicKey;
+  };
+
+  const nextNonce = async (
+    account: Account,
+    publicKey: PublicKey,
+    refresh: boolean,
+  ) => {
+    const id = `${account.connection.networkId}:${account.accountId}:${publicKey.toString()}`;
+    const state = keys.get(id) ?? { lock: Promise.resolve() };
+    keys.set(id, state);
+    const next = state.lock.then(async () => {
+      if (state.nonce === undefined || refresh) {
+        const accessKey =
+          await account.connection.provider.query<AccessKeyView>({
+            request_type: 'view_access_key',
+            account_id: account.accountId,
+            public_key: publicKey.toString(),
+            finality: 'optimistic',
+          });
+        const chainNonce = BigInt(accessKey.nonce);
+        // transactions in flight may not be included in the chain nonce yet
+        state.nonce =
+          state.nonce !== undefined && state.nonce > chainNonce
+            ? state.nonce
+            : chainNonce;
+      }
+      state.nonce += 1n;
+      return state.nonce;
+    });
+    state.lock = next.then(
+      () => undefined,
+      () => undefined,
+    );
+    return next;
+  };
+
+  return {
+    signAndSendTransaction: async (account, receiverId, actions) => {
+      const { provider, signer, networkId } = account.connection;
+      const publicKey = await getPublicKey(account);
+      let refresh = false;
+      for (let attempt = 1; ; attempt++) {
+        const nonce = await nextNonce(account, publicKey, refresh);
+        const block = await provider.block({ finality: 'final' });
+        const [, signedTransaction] = await transactions.signTransaction(
+          receiverId,
+          nonce,
+          actions,
+          base58.decode(block.header.hash),
+          signer,
+          account.accountId,
+          networkId,
+        );
+        try {
+          // an outcome that failed on chain is returned like any other, only
+          // transport and nonce errors are thrown
+          return await provider.sendTransaction(signedTransaction);
+        } catch (e) {
+          const errorType = getErrorType(e);
+          if (
+            (errorType !== 'InvalidNonce' && errorType !== 'Expired') ||
+            attempt >= MAX_ATTEMPTS
+          ) {
+            throw e;
+          }
+          // another process may have used the key, fetch its nonce again
+          refresh = errorType === 'InvalidNonce';
+          await wait(RETRY_DELAY_MS * attempt);
+        }
+      }
+    },
+    reserveNonce: async (account) => {
+      const publicKey = await getPublicKey(account);
+      return { publicKey, nonce: await nextNonce(account, publicKey, false) };
+    },
+    recordSignedTransaction: (hash) => {
+      const now = Date.now();
+      for (const [signedHash, signedAt] of signedTransactions) {
+        if (now - signedAt > SIGNED_TRANSACTION_TTL_MS) {
+          signedTransactions.delete(signedHash);
+        }
+      }
+      signedTransactions.set(hash, now);
+    },
+    isSignedTransaction: (hash) => signedTransactions.has(hash),
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+
+import assert from 'assert/strict';
+import { serialize } from 'borsh';
+
+import { decodeStateKey, decodeStateValue } from './state';
+
+describe('decodeStateKey', () => {
+  it('shows text keys but not binary ones', () => {
+    assert.equal(decodeStateKey(Buffer.from('STATE')), 'STATE');
+    assert.equal(decodeStateKey(Buffer.from([0x74, 0, 0, 0, 1])), undefined);
+  });
+});
+
+describe('decodeStateValue', () => {
+  it('decodes text, JSON and base64 values', () => {
+    const value = Buffer.from('{"owner":"bob.near"}');
+    assert.deepEqual(decodeStateValue(value, 'utf8'), {
+      ok: true,
+      value: '{"owner":"bob.near"}',
+    });
+    assert.deepEqual(decodeStateValue(value, 'json'), {
+      ok: true,
+      value: { owner: 'bob.near' },
+    });
+    assert.deepEqual(decodeStateValue(value, 'base64'), {
+      ok: true,
+      value: value.toString('base64'),
+    });
+    assert.ok(!decodeStateValue(Buffer.from([0xff]), 'json').ok);
+  });
+
+  it('decodes borsh values with their schema', () => {
+    const schema = {
+      struct: {
+        owner: 'string',
+        total: 'u128',
+        balances: { map: { key: 'string', value: 'u32' } },
+      },
+    };
+    const value = serialize(schema, {
+      owner: 'bob.near',
+      total: 10n ** 24n,
+      balances: new Map([['alice.near', 1]]),
+    });
+    const result = decodeStateValue(value, 'borsh', schema);
+    assert.ok(result.ok);
+    assert.deepEqual(result.value, {
+      owner: 'bob.near',
+      total: 10n ** 24n,
+      balances: [{ key: 'alice.near', value: 1 }],
+    });
+  });
+
+  it('rejects a borsh schema that does not read the whole value', () => {
+    assert.ok(!decodeStateValue(Buffer.from([1, 0, 0, 0]), 'borsh').ok);
+    const result = decodeStateValue(
+      Buffer.from([1, 0, 0, 0, 2]),
+      'borsh',
+      'u32',
+    );
+    assert.ok(!result.ok);
+    assert.match(result.error.message, /reads 4 of the 5 bytes/);
+  });
+});
@@ -0,0 +1,95 @@
+import { deserialize, type Schema, serialize } from 'borsh';
+import { z } from 'zod';
+
+import { type Result } from './utils';
+
+export const STATE_VALUE_ENCODINGS = [
+  'utf8',
+  'json',
+  'borsh',
+  'base64',
+] as const;
+export type StateValueEncoding = (typeof STATE_VALUE_ENCODINGS)[number];
+
+export const BorshSchemaSchema = z
+  .union([z.string(), z.record(z.string(), z.any())])
+  .describe(
+    'A borsh-js schema, e.g. `{ "struct": { "owner": "string", "total": "u128" } }`, `"u64"` or `{ "map": { "key": "string", "value": "u32" } }`.',
+  );
+
+// keys are shown as text unless they hold control characters, e.g. the
+// borsh encoded keys of near-sdk collections
+export const decodeStateKey = (key: Uint8Array) => {
+  const text = Buffer.from(key).toString('utf-8');
+  return /[\u0000-\u001f\u007f�]/.test(text) ? undefined : text;
+};
+
+// maps and sets have no JSON representation
+const toPlainValue = (value: unknown): unknown => {
+  if (value instanceof Map) {
+    return Array.from(value.entries()).map(([key, entry]) => ({
+      key: toPlainValue(key),
+      value: toPlainValue(entry),
+    }));
+  }
+  if (value instanceof Set || Array.isArray(value)) {
+    return Array.from(value as Iterable<unknown>).map(toPlainValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toPlainValue(entry)]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Decode a value of the contract state. Borsh values are decoded with the
+ * given schema, which must read the whole value.
+ */
+export const decodeStateValue = (
+  value: Uint8Array,
+  encoding: StateValueEncoding,
+  borshSchema?: z.infer<typeof BorshSchemaSchema>,
+): Result<unknown, Error> => {
+  try {
+    switch (encoding) {
+      case 'utf8':
+        return { ok: true, value: Buffer.from(value).toString('utf-8') };
+      case 'json':
+        return {
+          ok: true,
+          value: JSON.parse(Buffer.from(value).toString('utf-8')) as unknown,
+        };
+      case 'borsh': {
+        if (borshSchema === undefined) {
+          return {
+            ok: false,
+            error: new Error('A borsh schema is required to decode borsh'),
+          };
+        }
+        const decoded = deserialize(borshSchema as Schema, value);
+        // borsh ignores the bytes left after the schema is read
+        const length = serialize(borshSchema as Schema, decoded).length;
+        if (length !== value.length) {
+          return {
+            ok: false,
+            error: new Error(
+              `The borsh schema reads ${length} of the ${value.length} bytes of the value`,
+            ),
+          };
+        }
+        return { ok: true, value: toPlainValue(decoded) };
+      }
+      case 'base64':
+        return { ok: true, value: Buffer.from(value).toString('base64') };
+    }
+  } catch (e) {
+    return {
+      ok: false,
+      error: new Error(
+        `Failed to decode the value as ${encoding}: ${e instanceof Error ? e.message : String(e)}`,
+      ),
+    };
+  }
+};
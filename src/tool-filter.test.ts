@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { InMemoryKeyStore } from '@near-js/keystores';
+import assert from 'assert/strict';
+
+import { createRpcProviders, RpcConfigSchema } from './rpc';
+import { createMcpServer, type CreateMcpServerOptions } from './services';
+import { createToolFilter, matchesToolPatterns } from './tool-filter';
+
+describe('matchesToolPatterns', () => {
+  it('matches the included patterns but not the excluded ones', () => {
+    assert.ok(matchesToolPatterns('account_view_account', ['account_*']));
+    assert.ok(!matchesToolPatterns('tokens_send_near', ['account_*']));
+    assert.ok(
+      !matchesToolPatterns('account_delete_account', [
+        'account_*',
+        '!account_delete_*',
+      ]),
+    );
+    assert.ok(matchesToolPatterns('tokens_send_near', ['!account_*']));
+  });
+});
+
+describe('createToolFilter', () => {
+  it('combines the profile, the tools and the excluded tools', () => {
+    const filter = createToolFilter({
+      profile: 'wallet',
+      tools: ['tokens_*', 'contract_*'],
+      excludeTools: ['tokens_send_ft'],
+    });
+    assert.ok(filter.ok);
+    assert.ok(filter.value('tokens_send_near'));
+    assert.ok(!filter.value('tokens_send_ft'));
+    // not in the wallet profile
+    assert.ok(!filter.value('contract_call_raw_function'));
+    assert.ok(!filter.value('account_view_account'));
+  });
+
+  it('rejects unknown profiles', () => {
+    assert.ok(!createToolFilter({ profile: 'unknown' }).ok);
+  });
+});
+
+describe('tool registration', () => {
+  const connect = async (options: CreateMcpServerOptions) => {
+    const mcp = await createMcpServer(new InMemoryKeyStore(), {
+      rpc: createRpcProviders(RpcConfigSchema.parse({})),
+      ...options,
+    });
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      mcp.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+    return client;
+  };
+
+  it('neither lists nor calls the tools that are not allowed', async () => {
+    const filter = createToolFilter({ tools: ['system_*'] });
+    assert.ok(filter.ok);
+    const client = await connect({ toolFilter: filter.value });
+    const { tools } = await client.listTools();
+    assert.ok(tools.length > 0);
+    assert.ok(tools.every(({ name }) => name.startsWith('system_')));
+    await assert.rejects(
+      client.callTool({ name: 'tokens_send_near', arguments: {} }),
+      /Tool tokens_send_near not found/,
+    );
+    await client.close();
+  });
+
+  it('lists only the read-only tools in read-only mode', async () => {
+    const client = await connect({ readOnly: true });
+    const names = (await client.listTools()).tools.map(({ name }) => name);
+    assert.ok(names.includes('account_view_account_summary'));
+    assert.ok(!names.includes('tokens_send_near'));
+    assert.ok(!names.includes('transaction_sign'));
+    await client.close();
+  });
+});
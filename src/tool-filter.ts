@@ -0,0 +1,95 @@
+import { type Result } from './utils';
+
+export type ToolFilter = (toolName: string) => boolean;
+
+export const DEFAULT_TOOL_PROFILES: Record<string, string[]> = {
+  wallet: [
+    'system_*',
+    'account_*',
+    'address_book_*',
+    'tokens_*',
+    'transaction_*',
+    'audit_*',
+    'search_near_fungible_tokens',
+  ],
+  defi: [
+    'system_list_local_keypairs',
+    'account_view_account_summary',
+    'search_near_fungible_tokens',
+    'address_book_*',
+    'tokens_*',
+    'transaction_*',
+    'audit_*',
+    'ref_finance_*',
+  ],
+  dev: ['system_*', 'account_*', 'contract_*', 'transaction_*', 'audit_*'],
+};
+
+export type ToolFilterOptions = {
+  // patterns of the tools to expose, all tools when omitted
+  tools?: string[];
+  // patterns of the tools to hide
+  excludeTools?: string[];
+  // name of the profile further restricting the tools
+  profile?: string;
+  // profiles by name, added to the default profiles
+  profiles?: Record<string, string[]>;
+};
+
+const globToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.')}$`,
+  );
+
+export const matchesToolPattern = (toolName: string, pattern: string) =>
+  globToRegExp(pattern).test(toolName);
+
+/**
+ * Whether a tool matches a list of glob patterns such as `account_*`.
+ * Patterns prefixed with `!` exclude the tools they match, and a list of
+ * only exclusions matches every other tool.
+ */
+export const matchesToolPatterns = (toolName: string, patterns: string[]) => {
+  const included = patterns.filter((pattern) => !pattern.startsWith('!'));
+  const excluded = patterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => pattern.substring(1));
+  return (
+    (included.length === 0 ||
+      included.some((pattern) => matchesToolPattern(toolName, pattern))) &&
+    !excluded.some((pattern) => matchesToolPattern(toolName, pattern))
+  );
+};
+
+/**
+ * Create a filter exposing the tools matching both the profile and the
+ * tool patterns, and none of the excluded patterns.
+ */
+export const createToolFilter = ({
+  tools,
+  excludeTools = [],
+  profile,
+  profiles = {},
+}: ToolFilterOptions): Result<ToolFilter, Error> => {
+  const allProfiles = { ...DEFAULT_TOOL_PROFILES, ...profiles };
+  const profilePatterns =
+    profile !== undefined ? allProfiles[profile] : undefined;
+  if (profile !== undefined && !profilePatterns) {
+    return {
+      ok: false,
+      error: new Error(
+        `Unknown tool profile ${profile}, expected one of ${Object.keys(allProfiles).join(', ')}`,
+      ),
+    };
+  }
+  return {
+    ok: true,
+    value: (toolName) =>
+      (!profilePatterns || matchesToolPatterns(toolName, profilePatterns)) &&
+      (!tools || matchesToolPatterns(toolName, tools)) &&
+      !excludeTools.some((pattern) => matchesToolPattern(toolName, pattern)),
+  };
+};
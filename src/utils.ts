@@ -1,8 +1,16 @@
 import { KeyType } from '@near-js/crypto';
 import { DEFAULT_FUNCTION_CALL_GAS } from '@near-js/utils';
+import { readFile } from 'fs/promises';
 import { type OpenAPIV3 } from 'openapi-types';
 import { z } from 'zod';
 
+import {
+  DEFAULT_LOCALNET_NETWORK,
+  LOCALNET_NETWORK_ID,
+  type NetworkConfig,
+  type NetworkContracts,
+} from './network';
+
 export const DEFAULT_GAS = DEFAULT_FUNCTION_CALL_GAS * BigInt(10);
 export const YOCTO_NEAR_PER_NEAR = 10 ** 24;
 export const MCP_SERVER_NAME = 'near-mcp';
@@ -33,6 +41,22 @@ export type Result<T, E = Error> =
   | { ok: true; value: T }
   | { ok: false; error: E };
 
+export const readJsonFile = async (
+  filePath: string,
+): Promise<Result<unknown, Error>> => {
+  try {
+    return {
+      ok: true,
+      value: JSON.parse(await readFile(filePath, 'utf-8')) as unknown,
+    };
+  } catch (e) {
+    return {
+      ok: false,
+      error: new Error(`Failed to read ${filePath}: ${String(e)}`),
+    };
+  }
+};
+
 export const keyTypeToCurvePrefix = (keyType: KeyType) => {
   switch (keyType) {
     case KeyType.ED25519:
@@ -58,7 +82,28 @@ export const curvePrefixToKeyType = (
   }
 };
 
-export function getConfig(env: string) {
+const getCustomNetworkConfig = (networkId: string, network: NetworkConfig) => {
+  const { masterAccountId, contracts } = network;
+  return {
+    networkId,
+    nodeUrl: network.rpcUrl,
+    WRAP_NEAR_CONTRACT_ID: contracts.wrapNear ?? `wrap.${masterAccountId}`,
+    REF_FI_CONTRACT_ID:
+      contracts.refFinance ?? `ref-finance.${masterAccountId}`,
+    REF_TOKEN_ID: contracts.refToken ?? `ref.${masterAccountId}`,
+    explorerUrl: network.explorerUrl,
+    REF_DCL_SWAP_CONTRACT_ID: contracts.refDclSwap ?? `dcl.${masterAccountId}`,
+  };
+};
+
+function getDefaultConfig(
+  env: string,
+  customNetworks: Record<string, NetworkConfig>,
+) {
+  const customNetwork = customNetworks[env];
+  if (customNetwork) {
+    return getCustomNetworkConfig(env, customNetwork);
+  }
   switch (env) {
     case 'mainnet':
       return {
@@ -94,6 +139,11 @@ export function getConfig(env: string) {
         explorerUrl: 'https://testnet.nearblocks.io',
         REF_DCL_SWAP_CONTRACT_ID: 'refv2-dev.ref-dev.testnet',
       };
+    case LOCALNET_NETWORK_ID:
+      return getCustomNetworkConfig(
+        LOCALNET_NETWORK_ID,
+        DEFAULT_LOCALNET_NETWORK,
+      );
     default:
       return {
         networkId: 'mainnet',
@@ -109,6 +159,26 @@ export function getConfig(env: string) {
   }
 }
 
+export function getConfig(
+  env: string,
+  customNetworks: Record<string, NetworkConfig> = {},
+  contracts: Record<string, NetworkContracts> = {},
+) {
+  const config = getDefaultConfig(env, customNetworks);
+  const overrides = contracts[env];
+  if (!overrides) {
+    return config;
+  }
+  return {
+    ...config,
+    WRAP_NEAR_CONTRACT_ID: overrides.wrapNear ?? config.WRAP_NEAR_CONTRACT_ID,
+    REF_FI_CONTRACT_ID: overrides.refFinance ?? config.REF_FI_CONTRACT_ID,
+    REF_TOKEN_ID: overrides.refToken ?? config.REF_TOKEN_ID,
+    REF_DCL_SWAP_CONTRACT_ID:
+      overrides.refDclSwap ?? config.REF_DCL_SWAP_CONTRACT_ID,
+  };
+}
+
 export interface TokenMetadata {
   id: string;
   name: string;
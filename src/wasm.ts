@@ -0,0 +1,141 @@
+import base58 from 'bs58';
+import { createHash } from 'crypto';
+
+import { type Result } from './utils';
+
+// the code hash of an account without a contract
+export const EMPTY_CODE_HASH = '11111111111111111111111111111111';
+
+// the same hash the RPC reports as the code hash of an account
+export const getCodeHash = (code: Uint8Array) =>
+  base58.encode(createHash('sha256').update(code).digest());
+
+// the exports near-sdk generates for the embedded ABI and NEP-330
+export const CONTRACT_ABI_METHOD = '__contract_abi';
+export const SOURCE_METADATA_METHOD = 'contract_source_metadata';
+
+// host functions by prefix, an import counts for its most specific prefix
+const HOST_FUNCTION_FEATURES: [string, string][] = [
+  ['promise_yield_', 'yield and resume'],
+  ['promise_batch_action_', 'batch actions'],
+  ['promise_', 'cross-contract calls'],
+  ['storage_', 'contract storage'],
+  ['ed25519_verify', 'ed25519 signature verification'],
+  ['ecrecover', 'secp256k1 key recovery'],
+  ['alt_bn128_', 'alt_bn128 curve operations'],
+  ['bls12381_', 'BLS12-381 curve operations'],
+  ['random_seed', 'randomness'],
+  ['validator_', 'validator stakes'],
+  ['log_', 'logs'],
+];
+
+export type WasmInspection = {
+  methods: string[];
+  imports: { module: string; name: string; kind: string }[];
+  // what the contract does with the host functions it imports
+  features: string[];
+  customSections: { name: string; size: number }[];
+  hasContractAbi: boolean;
+  hasSourceMetadata: boolean;
+};
+
+const readLeb128 = (code: Uint8Array, offset: number) => {
+  let value = 0;
+  let shift = 0;
+  let position = offset;
+  for (;;) {
+    const byte = code[position++];
+    if (byte === undefined) {
+      throw new Error('Unexpected end of the module');
+    }
+    value += (byte & 0x7f) * 2 ** shift;
+    shift += 7;
+    if ((byte & 0x80) === 0) {
+      return { value, offset: position };
+    }
+  }
+};
+
+// WebAssembly.Module.customSections only looks up sections by name
+const getCustomSections = (code: Uint8Array) => {
+  const sections: WasmInspection['customSections'] = [];
+  // sections start after the magic number and the version
+  let offset = 8;
+  while (offset < code.length) {
+    const id = code[offset]!;
+    const size = readLeb128(code, offset + 1);
+    const end = size.offset + size.value;
+    if (id === 0) {
+      const nameLength = readLeb128(code, size.offset);
+      const nameEnd = nameLength.offset + nameLength.value;
+      sections.push({
+        name: Buffer.from(code.subarray(nameLength.offset, nameEnd)).toString(
+          'utf-8',
+        ),
+        size: end - nameEnd,
+      });
+    }
+    offset = end;
+  }
+  return sections;
+};
+
+/**
+ * Compile contract code and report what it exports, imports from the host
+ * and embeds in its custom sections.
+ */
+export const inspectWasm = async (
+  code: Uint8Array,
+): Promise<Result<WasmInspection, Error>> => {
+  try {
+    // a copy, since the code may be a view of a shared buffer
+    const wasmModule = await WebAssembly.compile(new Uint8Array(code));
+    const methods = WebAssembly.Module.exports(wasmModule)
+      .filter((exp) => exp.kind === 'function')
+      .map((exp) => exp.name);
+    const imports = WebAssembly.Module.imports(wasmModule).map(
+      ({ module, name, kind }) => ({ module, name, kind }),
+    );
+    const features = HOST_FUNCTION_FEATURES.filter(([prefix]) =>
+      imports.some(
+        ({ name }) =>
+          name.startsWith(prefix) &&
+          // a more specific prefix already matched the import
+          !HOST_FUNCTION_FEATURES.some(
+            ([other]) =>
+              other !== prefix &&
+              other.startsWith(prefix) &&
+              name.startsWith(other),
+          ),
+      ),
+    ).map(([, feature]) => feature);
+    return {
+      ok: true,
+      value: {
+        methods,
+        imports,
+        features,
+        customSections: getCustomSections(code),
+        hasContractAbi: methods.includes(CONTRACT_ABI_METHOD),
+        hasSourceMetadata: methods.includes(SOURCE_METADATA_METHOD),
+      },
+    };
+  } catch (e) {
+    return {
+      ok: false,
+      error: new Error(
+        `Failed to parse WebAssembly: ${e instanceof Error ? e.message : String(e)}`,
+      ),
+    };
+  }
+};
+
+export const getWasmMethods = async (
+  code: Uint8Array,
+): Promise<Result<string[], Error>> => {
+  const inspectionResult = await inspectWasm(code);
+  if (!inspectionResult.ok) {
+    return inspectionResult;
+  }
+  return { ok: true, value: inspectionResult.value.methods };
+};